@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from "react"
+import { useState, useEffect, useEffectEvent, useMemo } from "react"
 import { AnimatePresence, motion } from "framer-motion"
 import {
   Header,
@@ -6,10 +6,44 @@ import {
   Controls,
   GanttChart,
   MetricsCards,
-  ResultsTable
+  ResultsTable,
+  ComparisonView,
+  ScenarioLibrary,
+  TracePanel,
+  ReportView,
+  ShareTrackingView,
+  RealTimeView,
+  PredictionView
 } from "./components"
-import { simulateSchedule } from "./lib/scheduler"
-import type { Process, Algorithm, SimulationResult } from "./types"
+import {
+  simulateSchedule,
+  validateProcess,
+  DEFAULT_MLFQ_CONFIG,
+  DEFAULT_AGING_CONFIG,
+  ALGORITHMS,
+  getAlgorithm,
+  resolveParams
+} from "./lib/scheduler"
+import {
+  encodeScenario,
+  decodeScenario,
+  scenarioHash,
+  readScenarioHash
+} from "./lib/shareLink"
+import { loadWorkspace, saveWorkspace, loadLibrary, saveLibrary } from "./lib/scenarios"
+import { partialMetrics } from "./lib/playback"
+import { isRealTime } from "./lib/realtime"
+import type {
+  Process,
+  Algorithm,
+  AlgorithmParams,
+  MLFQConfig,
+  AgingConfig,
+  QueueMode,
+  Scenario,
+  SimulationOptions,
+  SimulationResult
+} from "./types"
 
 function App() {
   // Dark mode state
@@ -24,26 +58,71 @@ function App() {
     return false
   })
 
+  // Workspace autosaved by the previous visit, if any
+  const [savedWorkspace] = useState(loadWorkspace)
+  const savedOptions = savedWorkspace?.options ?? {}
+
   // Process list state
-  const [processes, setProcesses] = useState<Process[]>([])
+  const [processes, setProcesses] = useState<Process[]>(savedWorkspace?.processes ?? [])
 
   // Algorithm state
-  const [algorithm, setAlgorithm] = useState<Algorithm>("FCFS")
-  const [quantum, setQuantum] = useState(2)
+  const [algorithm, setAlgorithm] = useState<Algorithm>(savedWorkspace?.algorithm ?? "FCFS")
+  const [quantum, setQuantum] = useState(savedWorkspace?.quantum ?? 2)
+  // Parameters of other algorithms (the quantum lives in scenarios and links)
+  const [params, setParams] = useState<AlgorithmParams>(savedOptions.params ?? {})
+  const [mlfqConfig, setMlfqConfig] = useState<MLFQConfig>(
+    savedOptions.mlfq ?? DEFAULT_MLFQ_CONFIG
+  )
+  const [aging, setAging] = useState<AgingConfig>(savedOptions.aging ?? DEFAULT_AGING_CONFIG)
+  const [contextSwitchCost, setContextSwitchCost] = useState(savedOptions.contextSwitchCost ?? 0)
+  const [cores, setCores] = useState(savedOptions.cores ?? 1)
+  const [queueMode, setQueueMode] = useState<QueueMode>(savedOptions.queueMode ?? "global")
+  const [starvationThreshold, setStarvationThreshold] = useState(
+    savedOptions.starvationThreshold ?? 20
+  )
+
+  // Saved scenario library
+  const [library, setLibrary] = useState<Scenario[]>(loadLibrary)
 
   // Simulation results
   const [result, setResult] = useState<SimulationResult | null>(null)
+  // Inputs of the displayed result; the table may have been edited since
+  const [simulated, setSimulated] = useState({
+    processes,
+    algorithm,
+    quantum,
+    options: {} as SimulationOptions
+  })
   const [isRunning, setIsRunning] = useState(false)
+  // Gantt playback position; the metrics cards follow it while set
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null)
+  const partial = useMemo(
+    () => (result && playbackTime !== null ? partialMetrics(result, playbackTime) : null),
+    [result, playbackTime]
+  )
+  // Printable report of the displayed result
+  const [showReport, setShowReport] = useState(false)
+  const reportOpen = showReport && result !== null
+  // Smoothing and initial guess of the displayed result, for SJF / SRTF with prediction
+  const predictionParams = useMemo(() => {
+    const definition = getAlgorithm(simulated.algorithm)
+    if (!definition.params.some((p) => p.name === "alpha")) return null
+    const params = resolveParams(definition, simulated.options.params ?? {})
+    return { alpha: params.alpha, tau0: params.tau0 }
+  }, [simulated])
+
+  // Problems with a shared link that could not be restored
+  const [linkErrors, setLinkErrors] = useState<string[] | null>(null)
 
-  // Apply dark mode to document
+  // Apply dark mode to document (the printable report is always light)
   useEffect(() => {
-    if (darkMode) {
+    if (darkMode && !reportOpen) {
       document.documentElement.classList.add("dark")
     } else {
       document.documentElement.classList.remove("dark")
     }
     localStorage.setItem("darkMode", JSON.stringify(darkMode))
-  }, [darkMode])
+  }, [darkMode, reportOpen])
 
   // Custom handler for process changes that also clears results when needed
   const handleProcessesChange = (newProcesses: Process[]) => {
@@ -54,20 +133,128 @@ function App() {
     }
   }
 
+  // Algorithm settings stored in an imported JSON file
+  const handleSettingsImport = (settings: { algorithm?: Algorithm; quantum?: number }) => {
+    if (settings.algorithm) setAlgorithm(settings.algorithm)
+    if (settings.quantum) setQuantum(settings.quantum)
+  }
+
   // Get all PIDs for color mapping
   const allPids = useMemo(() => processes.map((p) => p.pid), [processes])
 
   // Check if we can run the simulation
   const canRun = useMemo(() => {
-    return (
-      processes.length > 0 &&
-      processes.every(
-        (p) =>
-          p.pid.trim() !== "" && p.arrivalTime >= 0 && p.burstTime > 0 && p.priority >= 0
-      )
-    )
+    return processes.length > 0 && processes.every((p) => validateProcess(p).valid)
   }, [processes])
 
+  // Settings shared by single runs and comparisons
+  const simulationOptions = useMemo<SimulationOptions>(
+    () => ({
+      mlfq: mlfqConfig,
+      aging,
+      contextSwitchCost,
+      cores,
+      queueMode,
+      starvationThreshold,
+      params
+    }),
+    [mlfqConfig, aging, contextSwitchCost, cores, queueMode, starvationThreshold, params]
+  )
+
+  // Autosave the workspace and the scenario library
+  useEffect(() => {
+    saveWorkspace({ processes, algorithm, quantum, options: simulationOptions })
+  }, [processes, algorithm, quantum, simulationOptions])
+
+  useEffect(() => {
+    saveLibrary(library)
+  }, [library])
+
+  // Load a built-in or saved scenario
+  const handleLoadScenario = (scenario: Scenario) => {
+    setProcesses(scenario.processes)
+    setAlgorithm(scenario.algorithm)
+    setQuantum(scenario.quantum)
+    setResult(null)
+  }
+
+  // Restore a shared scenario and run it straight away
+  const loadSharedScenario = useEffectEvent(async (encoded: string) => {
+    const scenario = await decodeScenario(encoded)
+    if (scenario.errors.length > 0) {
+      setLinkErrors(scenario.errors)
+      return
+    }
+    const sharedAlgorithm = scenario.algorithm ?? algorithm
+    const sharedQuantum = scenario.quantum ?? quantum
+    // Settings the link was shared with, defaults filled in
+    const shared = scenario.options && {
+      mlfq: scenario.options.mlfq ?? DEFAULT_MLFQ_CONFIG,
+      aging: scenario.options.aging ?? DEFAULT_AGING_CONFIG,
+      contextSwitchCost: scenario.options.contextSwitchCost ?? 0,
+      cores: scenario.options.cores ?? 1,
+      queueMode: scenario.options.queueMode ?? "global",
+      starvationThreshold: scenario.options.starvationThreshold ?? 20,
+      params: scenario.options.params ?? {}
+    }
+    setLinkErrors(null)
+    setProcesses(scenario.processes)
+    setAlgorithm(sharedAlgorithm)
+    setQuantum(sharedQuantum)
+    if (shared) {
+      setMlfqConfig(shared.mlfq)
+      setAging(shared.aging)
+      setContextSwitchCost(shared.contextSwitchCost)
+      setCores(shared.cores)
+      setQueueMode(shared.queueMode)
+      setStarvationThreshold(shared.starvationThreshold)
+      setParams(shared.params)
+    }
+    // Links made before options were shared run with the current settings
+    const sharedOptions = shared ?? simulationOptions
+    setResult(
+      simulateSchedule(scenario.processes, sharedAlgorithm, sharedQuantum, sharedOptions)
+    )
+    setSimulated({
+      processes: scenario.processes,
+      algorithm: sharedAlgorithm,
+      quantum: sharedQuantum,
+      options: sharedOptions
+    })
+  })
+
+  // Load the scenario in the URL hash on start and whenever a new link is opened
+  useEffect(() => {
+    const handleHashChange = () => {
+      const encoded = readScenarioHash(window.location.hash)
+      if (encoded) loadSharedScenario(encoded)
+    }
+    handleHashChange()
+    window.addEventListener("hashchange", handleHashChange)
+    return () => window.removeEventListener("hashchange", handleHashChange)
+  }, [])
+
+  // Put the current scenario in the URL and copy the link; false if copying failed
+  const handleShare = async () => {
+    const encoded = await encodeScenario(processes, algorithm, quantum, simulationOptions)
+    window.history.replaceState(null, "", scenarioHash(encoded))
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  // Parameter inputs built from the algorithm's schema
+  const handleParamChange = (name: string, value: number) => {
+    if (name === "quantum") {
+      setQuantum(value)
+    } else {
+      setParams({ ...params, [name]: value })
+    }
+  }
+
   // Run the simulation
   const handleRun = () => {
     if (!canRun) return
@@ -76,8 +263,14 @@ function App() {
 
     // Small delay for visual feedback
     setTimeout(() => {
-      const simulationResult = simulateSchedule(processes, algorithm, quantum)
+      const simulationResult = simulateSchedule(
+        processes,
+        algorithm,
+        quantum,
+        simulationOptions
+      )
       setResult(simulationResult)
+      setSimulated({ processes, algorithm, quantum, options: simulationOptions })
       setIsRunning(false)
     }, 300)
   }
@@ -92,31 +285,95 @@ function App() {
     setDarkMode((prev: boolean) => !prev)
   }
 
+  if (reportOpen) {
+    return (
+      <ReportView
+        result={result}
+        processes={simulated.processes}
+        algorithm={simulated.algorithm}
+        quantum={simulated.quantum}
+        options={simulated.options}
+        allPids={simulated.processes.map((p) => p.pid)}
+        onClose={() => setShowReport(false)}
+      />
+    )
+  }
+
   return (
     <div className="min-h-screen transition-colors duration-300 bg-gray-50 dark:bg-gray-900">
       <Header darkMode={darkMode} onToggleDarkMode={toggleDarkMode} />
 
       <main className="px-4 py-6 mx-auto max-w-7xl sm:px-6 lg:px-8">
         <div className="space-y-6">
+          {/* Scenario Library */}
+          <ScenarioLibrary
+            library={library}
+            onLibraryChange={setLibrary}
+            onLoad={handleLoadScenario}
+            processes={processes}
+            algorithm={algorithm}
+            quantum={quantum}
+            disabled={isRunning}
+          />
+
           {/* Process Input Section */}
           <ProcessTable
             processes={processes}
             onProcessesChange={handleProcessesChange}
+            algorithm={algorithm}
+            quantum={quantum}
+            onSettingsImport={handleSettingsImport}
             disabled={isRunning}
           />
 
           {/* Controls Section */}
           <Controls
             algorithm={algorithm}
-            quantum={quantum}
+            params={{ ...params, quantum }}
+            mlfqConfig={mlfqConfig}
+            aging={aging}
+            contextSwitchCost={contextSwitchCost}
+            cores={cores}
+            queueMode={queueMode}
+            starvationThreshold={starvationThreshold}
             onAlgorithmChange={setAlgorithm}
-            onQuantumChange={setQuantum}
+            onParamChange={handleParamChange}
+            onMlfqConfigChange={setMlfqConfig}
+            onAgingChange={setAging}
+            onContextSwitchCostChange={setContextSwitchCost}
+            onCoresChange={setCores}
+            onQueueModeChange={setQueueMode}
+            onStarvationThresholdChange={setStarvationThreshold}
             onRun={handleRun}
             onReset={handleReset}
+            onReport={() => setShowReport(true)}
+            onShare={handleShare}
             canRun={canRun && !isRunning}
             hasResults={result !== null}
           />
 
+          {/* Shared link errors */}
+          {linkErrors && (
+            <div className="p-4 border border-red-200 rounded-lg bg-red-50 dark:bg-red-900/20 dark:border-red-900/50">
+              <div className="flex items-start justify-between gap-4">
+                <p className="text-sm font-medium text-red-700 dark:text-red-400">
+                  This shared link could not be opened:
+                </p>
+                <button
+                  onClick={() => setLinkErrors(null)}
+                  className="text-sm text-red-500 hover:text-red-700 dark:hover:text-red-300"
+                >
+                  Dismiss
+                </button>
+              </div>
+              <ul className="mt-1 text-sm text-red-600 list-disc list-inside dark:text-red-400">
+                {linkErrors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Loading indicator */}
           <AnimatePresence>
             {isRunning && (
@@ -146,21 +403,75 @@ function App() {
                 className="space-y-6"
               >
                 {/* Metrics Cards */}
-                <MetricsCards result={result} />
+                <MetricsCards
+                  result={result}
+                  partial={partial}
+                  starvationThreshold={starvationThreshold}
+                />
 
                 {/* Gantt Chart */}
                 <GanttChart
                   segments={result.ganttChart}
+                  ioSegments={result.ioChart}
                   allPids={allPids}
                   totalTime={result.totalTime}
+                  events={result.events}
+                  processes={simulated.processes}
+                  algorithm={simulated.algorithm}
+                  aging={simulated.options.aging}
+                  metrics={result.processMetrics}
+                  onTimeChange={setPlaybackTime}
                 />
 
                 {/* Results Table */}
                 <ResultsTable metrics={result.processMetrics} allPids={allPids} />
+
+                {/* CPU share against ticket share (proportional-share algorithms) */}
+                {getAlgorithm(simulated.algorithm).processFields?.includes("tickets") && (
+                  <ShareTrackingView
+                    processes={simulated.processes}
+                    result={result}
+                    allPids={allPids}
+                  />
+                )}
+
+                {/* Deadlines and schedulability (periodic tasks and deadlines) */}
+                {simulated.processes.some(isRealTime) && (
+                  <RealTimeView
+                    processes={simulated.processes}
+                    result={result}
+                    algorithm={simulated.algorithm}
+                    allPids={allPids}
+                  />
+                )}
+
+                {/* Predicted against actual bursts (SJF / SRTF with prediction) */}
+                {predictionParams && (
+                  <PredictionView
+                    processes={simulated.processes}
+                    alpha={predictionParams.alpha}
+                    tau0={predictionParams.tau0}
+                    allPids={allPids}
+                  />
+                )}
+
+                {/* Scheduling trace */}
+                <TracePanel events={result.events} allPids={allPids} />
               </motion.div>
             )}
           </AnimatePresence>
 
+          {/* Algorithm comparison */}
+          {processes.length > 0 && (
+            <ComparisonView
+              processes={processes}
+              allPids={allPids}
+              quantum={quantum}
+              options={simulationOptions}
+              canRun={canRun && !isRunning}
+            />
+          )}
+
           {/* Empty state */}
           {!result && !isRunning && processes.length === 0 && (
             <motion.div
@@ -213,7 +524,9 @@ function App() {
         <div className="px-4 py-6 mx-auto max-w-7xl sm:px-6 lg:px-8">
           <div className="text-sm text-center text-gray-500 dark:text-gray-400">
             <p>CPU Scheduling Simulator - OS Fundamentals Demo</p>
-            <p className="mt-1">Algorithms: FCFS | SJF | SRTF | Priority | Round Robin</p>
+            <p className="mt-1">
+              Algorithms: {ALGORITHMS.map((a) => a.shortLabel).join(" | ")}
+            </p>
             <p className="mt-1">Idris Al Tamimi</p>
           </div>
         </div>
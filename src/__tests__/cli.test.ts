@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { parseArgs, runCli, formatGantt } from '../lib/cli';
+import { exportJSON } from '../lib/processFiles';
+import { getExampleProcesses, ALL_ALGORITHMS } from '../lib/scheduler';
+
+const WORKLOAD_CSV = 'pid,arrival,burst,priority\nP1,0,3,1\nP2,1,2,1\n';
+
+const files: Record<string, string> = {
+  'workload.csv': WORKLOAD_CSV,
+  'example.json': exportJSON(getExampleProcesses(), 'RoundRobin', 3),
+  'broken.csv': 'pid,arrival,burst,priority\nP1,0,0,1\n',
+};
+
+const readFile = (path: string) => {
+  if (!(path in files)) throw new Error('no such file');
+  return files[path];
+};
+
+describe('parseArgs', () => {
+  it('should read flags and match algorithms by id or short label', () => {
+    expect(parseArgs(['workload.csv', '-a', 'rr', '--algorithm', 'SJF-P', '-q', '4'])).toEqual({
+      file: 'workload.csv',
+      algorithms: ['RoundRobin', 'SJF-P'],
+      quantum: 4,
+      format: 'table',
+    });
+  });
+
+  it('should select every algorithm with --all', () => {
+    const options = parseArgs(['--all', 'workload.csv', '--format', 'csv']);
+    expect(options).toMatchObject({ format: 'csv' });
+    expect(options !== 'help' && options.algorithms).toHaveLength(ALL_ALGORITHMS.length);
+  });
+
+  it('should reject bad usage', () => {
+    expect(() => parseArgs([])).toThrow('No workload file given');
+    expect(() => parseArgs(['w.csv', '-a', 'Guaranteed'])).toThrow('Unknown algorithm: Guaranteed');
+    expect(() => parseArgs(['w.csv', '-q', '0'])).toThrow('Quantum must be a number >= 1');
+    expect(() => parseArgs(['w.csv', '--format'])).toThrow('--format needs a value');
+    expect(() => parseArgs(['w.csv', '--verbose'])).toThrow('Unknown option: --verbose');
+  });
+});
+
+describe('runCli', () => {
+  it('should print an ASCII Gantt chart and a metrics table', () => {
+    const { stdout, exitCode } = runCli(['workload.csv'], readFile);
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('== First Come First Served (FCFS) ==');
+    expect(stdout).toContain('|     P1     |   P2   |');
+    expect(stdout).toContain('Average waiting time:    1');
+  });
+
+  it('should use the algorithm and quantum stored in a JSON file', () => {
+    const { stdout } = runCli(['example.json', '-f', 'json'], readFile);
+    const [run] = JSON.parse(stdout);
+
+    expect(run.algorithm).toBe('RoundRobin');
+    expect(run.quantum).toBe(3);
+    expect(run.processMetrics).toHaveLength(5);
+  });
+
+  it('should write one CSV row per algorithm and process', () => {
+    const { stdout } = runCli(['workload.csv', '--all', '-f', 'csv'], readFile);
+    const lines = stdout.trim().split('\n');
+
+    expect(lines[0]).toBe(
+      'algorithm,pid,arrival,burst,priority,completion,turnaround,waiting,response'
+    );
+    expect(lines).toHaveLength(1 + ALL_ALGORITHMS.length * 2);
+    expect(lines[1]).toBe('FCFS,P1,0,3,1,3,3,0,0');
+  });
+
+  it('should add a comparison table when several algorithms run', () => {
+    const { stdout } = runCli(['workload.csv', '-a', 'fcfs', '-a', 'rr', '-q', '1'], readFile);
+
+    expect(stdout).toContain('== Round Robin (RR), quantum 1 ==');
+    expect(stdout).toContain('== Comparison ==');
+  });
+
+  it('should report unreadable files, invalid workloads and usage errors', () => {
+    expect(runCli(['missing.csv'], readFile)).toMatchObject({
+      exitCode: 1,
+      stderr: 'Cannot read missing.csv: no such file\n',
+    });
+    expect(runCli(['broken.csv'], readFile)).toMatchObject({
+      exitCode: 1,
+      stderr: 'Line 2: Burst time must be > 0\n',
+    });
+    expect(runCli(['--quantum'], readFile).exitCode).toBe(2);
+    expect(runCli(['--help'], readFile)).toMatchObject({ exitCode: 0, stderr: '' });
+  });
+});
+
+describe('formatGantt', () => {
+  it('should draw one lane per core and fill gaps with idle time', () => {
+    const chart = formatGantt([
+      { pid: 'A', start: 0, end: 2, core: 0 },
+      { pid: 'B', start: 1, end: 2, core: 1 },
+    ]);
+
+    expect(chart.split('\n')).toEqual([
+      '     +--------+',
+      'CPU0 |   A    |',
+      '     +--------+',
+      '     0        2',
+      '',
+      '     +------+----+',
+      'CPU1 | idle | B  |',
+      '     +------+----+',
+      '     0      1    2',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { partialMetrics, nextStop, previousStop } from '../lib/playback';
+import { simulateSchedule, getExampleProcesses } from '../lib/scheduler';
+import type { Process } from '../types';
+
+const processes: Process[] = [
+  { pid: 'P1', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 0 },
+  { pid: 'P2', arrivalTime: 1, burstTime: 2, priority: 1, insertionOrder: 1 },
+  { pid: 'P3', arrivalTime: 8, burstTime: 1, priority: 1, insertionOrder: 2 },
+];
+
+describe('partialMetrics', () => {
+  it('should count only what has happened by time t', () => {
+    // FCFS: P1 0-4, P2 4-6, idle 6-8, P3 8-9
+    const result = simulateSchedule(processes, 'FCFS', 2);
+    const partial = partialMetrics(result, 5);
+
+    expect(partial).toMatchObject({ time: 5, arrived: 2, completed: 1, total: 3 });
+    // P1 has not waited, P2 waited from 1 to 4
+    expect(partial.averageWaitingTime).toBe(1.5);
+    expect(partial.averageTurnaroundTime).toBe(4);
+    expect(partial.averageResponseTime).toBe(1.5);
+    expect(partial.cpuUtilization).toBe(100);
+    expect(partialMetrics(result, 8).cpuUtilization).toBe(75);
+  });
+
+  it('should cut waiting spans off at time t', () => {
+    const result = simulateSchedule(processes, 'FCFS', 2);
+    expect(partialMetrics(result, 2.5).averageWaitingTime).toBe(0.75);
+  });
+
+  it('should match the final metrics at the end of the run', () => {
+    const result = simulateSchedule(getExampleProcesses(), 'RoundRobin', 2, {
+      contextSwitchCost: 0.5,
+    });
+    const partial = partialMetrics(result, result.totalTime);
+
+    expect(partial.completed).toBe(result.processMetrics.length);
+    expect(partial.averageWaitingTime).toBeCloseTo(result.averageWaitingTime);
+    expect(partial.averageTurnaroundTime).toBeCloseTo(result.averageTurnaroundTime);
+    expect(partial.averageResponseTime).toBeCloseTo(result.averageResponseTime);
+    expect(partial.cpuUtilization).toBeCloseTo(result.cpuUtilization);
+    expect(partial.contextSwitches).toBe(result.contextSwitches);
+  });
+});
+
+describe('nextStop / previousStop', () => {
+  it('should find the nearest time on either side', () => {
+    const times = [0, 4, 2, 6, 4];
+    expect(nextStop(times, 2)).toBe(4);
+    expect(nextStop(times, 2.5)).toBe(4);
+    expect(nextStop(times, 6)).toBeUndefined();
+    expect(previousStop(times, 4)).toBe(2);
+    expect(previousStop(times, 0)).toBeUndefined();
+  });
+});
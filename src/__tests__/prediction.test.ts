@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { nextPrediction, burstPredictions } from '../lib/prediction';
+import type { Process } from '../types';
+
+describe('nextPrediction', () => {
+  it('should average the last burst and the last prediction', () => {
+    expect(nextPrediction(0.5, 6, 10)).toBe(8);
+    expect(nextPrediction(0, 6, 10)).toBe(10);
+    expect(nextPrediction(1, 6, 10)).toBe(6);
+  });
+});
+
+describe('burstPredictions', () => {
+  it('should predict every CPU burst from the ones before it', () => {
+    const processes: Process[] = [
+      { pid: 'P1', arrivalTime: 0, burstTime: 12, priority: 1, insertionOrder: 0, bursts: [6, 2, 4, 2, 2] },
+      { pid: 'P2', arrivalTime: 1, burstTime: 3, priority: 1, insertionOrder: 1 },
+    ];
+
+    const [p1, p2] = burstPredictions(processes, 0.5, 10);
+
+    expect(p1.bursts).toEqual([
+      { predicted: 10, actual: 6, error: 4 },
+      { predicted: 8, actual: 4, error: 4 },
+      { predicted: 6, actual: 2, error: 4 },
+    ]);
+    expect(p1.meanAbsoluteError).toBe(4);
+    expect(p2).toEqual({
+      pid: 'P2',
+      bursts: [{ predicted: 10, actual: 3, error: 7 }],
+      meanAbsoluteError: 7,
+    });
+  });
+
+  it('should learn across the jobs of a periodic task', () => {
+    const task: Process = {
+      pid: 'T1',
+      arrivalTime: 0,
+      burstTime: 2,
+      priority: 1,
+      insertionOrder: 0,
+      period: 4,
+    };
+    const other: Process = { ...task, pid: 'T2', burstTime: 1, period: 8, insertionOrder: 1 };
+
+    const [t1] = burstPredictions([task, other], 0.5, 6);
+
+    // Hyperperiod 8: two jobs, the second predicted from the first
+    expect(t1.bursts.map((b) => b.predicted)).toEqual([6, 4]);
+    expect(t1.bursts.map((b) => b.error)).toEqual([4, 2]);
+  });
+});
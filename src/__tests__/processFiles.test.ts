@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import {
+  exportCSV,
+  exportJSON,
+  parseCSV,
+  parseJSON,
+  parseProcessFile,
+  PROCESS_FILE_VERSION,
+} from '../lib/processFiles';
+import { getExampleProcesses } from '../lib/scheduler';
+import type { Process } from '../types';
+
+describe('CSV import and export', () => {
+  it('should round-trip the example processes', () => {
+    const processes = getExampleProcesses();
+    const result = parseCSV(exportCSV(processes));
+
+    expect(result.errors).toEqual([]);
+    expect(result.processes).toEqual(processes);
+  });
+
+  it('should keep burst sequences and affinity in extra columns', () => {
+    const processes: Process[] = [
+      { pid: 'P1', arrivalTime: 0, burstTime: 6, priority: 1, insertionOrder: 0, bursts: [4, 3, 2] },
+      { pid: 'P2', arrivalTime: 1, burstTime: 2, priority: 2, insertionOrder: 1, affinity: [0, 2] },
+    ];
+
+    const csv = exportCSV(processes);
+    expect(csv.split('\n')[0]).toBe('pid,arrival,burst,priority,bursts,affinity');
+    expect(parseCSV(csv).processes).toEqual(processes);
+  });
+
+  it('should keep tickets in an extra column', () => {
+    const processes: Process[] = [
+      { pid: 'P1', arrivalTime: 0, burstTime: 6, priority: 1, insertionOrder: 0, tickets: 300 },
+      { pid: 'P2', arrivalTime: 1, burstTime: 2, priority: 2, insertionOrder: 1 },
+    ];
+
+    const csv = exportCSV(processes);
+    expect(csv.split('\n')[0]).toBe('pid,arrival,burst,priority,tickets');
+    expect(parseCSV(csv).processes).toEqual(processes);
+    expect(parseJSON(exportJSON(processes, 'Lottery', 2)).processes).toEqual(processes);
+  });
+
+  it('should keep periods and deadlines in extra columns', () => {
+    const processes: Process[] = [
+      { pid: 'T1', arrivalTime: 0, burstTime: 1, priority: 1, insertionOrder: 0, period: 4 },
+      {
+        pid: 'T2',
+        arrivalTime: 0,
+        burstTime: 2,
+        priority: 1,
+        insertionOrder: 1,
+        period: 6,
+        deadline: 5,
+      },
+      { pid: 'A', arrivalTime: 3, burstTime: 2, priority: 1, insertionOrder: 2 },
+    ];
+
+    const csv = exportCSV(processes);
+    expect(csv.split('\n')[0]).toBe('pid,arrival,burst,priority,period,deadline');
+    expect(parseCSV(csv).processes).toEqual(processes);
+    expect(parseJSON(exportJSON(processes, 'EDF', 2)).processes).toEqual(processes);
+  });
+
+  it('should accept columns in any order and case', () => {
+    const result = parseCSV('Priority,PID,Burst,Arrival\n2,A,5,0\n1,"B,1",3,2\n');
+
+    expect(result.errors).toEqual([]);
+    expect(result.processes).toEqual([
+      { pid: 'A', arrivalTime: 0, burstTime: 5, priority: 2, insertionOrder: 0 },
+      { pid: 'B,1', arrivalTime: 2, burstTime: 3, priority: 1, insertionOrder: 1 },
+    ]);
+  });
+
+  it('should report errors line by line', () => {
+    const result = parseCSV('pid,arrival,burst,priority\nP1,0,5,1\nP2,x,0,1\nP3,1,0,1\nP1,2,3,1\n');
+
+    expect(result.errors).toEqual([
+      'Line 3: Arrival time must be a number',
+      'Line 4: Burst time must be > 0',
+      'Line 5: Duplicate process ID P1',
+    ]);
+  });
+
+  it('should report every invalid token in burst and affinity lists', () => {
+    const result = parseCSV(
+      'pid,arrival,burst,priority,bursts,affinity\nP1,0,,1,4 -3 2,\nP2,0,,1,4 x 2,\nP3,0,2,1,,-1\n'
+    );
+
+    expect(result.errors).toEqual([
+      'Line 2: Bursts: "-3" is not a number >= 0',
+      'Line 3: Bursts: "x" is not a number >= 0',
+      'Line 4: Affinity: "-1" is not a number >= 0',
+    ]);
+  });
+
+  it('should reject a header without the required columns', () => {
+    expect(parseCSV('pid,arrival\nP1,0\n').errors).toEqual([
+      'Header is missing column(s): burst, priority',
+    ]);
+    expect(parseCSV('pid,arrival,burst,priority\n').errors).toEqual([
+      'File contains no processes',
+    ]);
+  });
+});
+
+describe('JSON import and export', () => {
+  it('should round-trip processes with the algorithm settings', () => {
+    const processes = getExampleProcesses();
+    const json = exportJSON(processes, 'RoundRobin', 3);
+
+    expect(JSON.parse(json).version).toBe(PROCESS_FILE_VERSION);
+    expect(parseJSON(json)).toEqual({
+      processes,
+      algorithm: 'RoundRobin',
+      quantum: 3,
+      errors: [],
+    });
+  });
+
+  it('should report invalid processes by position', () => {
+    const json = JSON.stringify({
+      version: 1,
+      processes: [
+        { pid: 'P1', arrivalTime: 0, burstTime: 4, priority: 1 },
+        { pid: 'P2', arrivalTime: -1, burstTime: 4, priority: 1 },
+        { pid: 'P3', arrivalTime: 0, burstTime: 4, priority: 1, bursts: [4, 2] },
+      ],
+    });
+
+    expect(parseJSON(json).errors).toEqual([
+      'Process 2: Arrival time must be >= 0',
+      'Process 3: Burst sequence must start and end with a CPU burst',
+    ]);
+  });
+
+  it('should reject malformed files and unknown settings', () => {
+    expect(parseJSON('{').errors).toEqual(['File is not valid JSON']);
+    expect(parseJSON('{"processes": []}').errors).toEqual(['File has no version number']);
+    expect(parseJSON('{"version": 99, "processes": []}').errors[0]).toMatch(
+      /Unsupported file version 99/
+    );
+    expect(
+      parseJSON(
+        '{"version": 1, "algorithm": "Guaranteed", "processes": [{"pid": "P1", "arrivalTime": 0, "burstTime": 1, "priority": 0}]}'
+      ).errors
+    ).toEqual(['Unknown algorithm: Guaranteed']);
+  });
+});
+
+describe('parseProcessFile', () => {
+  it('should pick the format from the file name or content', () => {
+    const processes = getExampleProcesses();
+
+    expect(parseProcessFile('trace.csv', exportCSV(processes)).processes).toEqual(processes);
+    expect(parseProcessFile('trace.json', exportJSON(processes, 'FCFS', 2)).algorithm).toBe(
+      'FCFS'
+    );
+    expect(parseProcessFile('trace.txt', exportJSON(processes, 'SJF', 2)).algorithm).toBe('SJF');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hyperperiod,
+  releaseJobs,
+  absoluteDeadline,
+  jobRelease,
+  jobId,
+  liuLaylandBound,
+  schedulability,
+  MAX_HYPERPERIOD,
+} from '../lib/realtime';
+import type { Process } from '../types';
+
+const task = (pid: string, burstTime: number, period: number, deadline?: number): Process => ({
+  pid,
+  arrivalTime: 0,
+  burstTime,
+  priority: 1,
+  insertionOrder: 0,
+  period,
+  ...(deadline !== undefined ? { deadline } : {}),
+});
+
+describe('hyperperiod', () => {
+  it('should be the least common multiple of the periods', () => {
+    expect(hyperperiod([task('A', 1, 4), task('B', 1, 6), task('C', 1, 10)])).toBe(60);
+    expect(hyperperiod([{ ...task('X', 1, 1), period: undefined }])).toBe(0);
+  });
+});
+
+describe('releaseJobs', () => {
+  it('should release one job per period over the hyperperiod', () => {
+    const aperiodic: Process = {
+      pid: 'X',
+      arrivalTime: 3,
+      burstTime: 2,
+      priority: 1,
+      insertionOrder: 2,
+    };
+    const jobs = releaseJobs([task('A', 1, 2), { ...task('B', 1, 3), arrivalTime: 1 }, aperiodic]);
+
+    // Hyperperiod 6 after the last first release at 1
+    expect(jobs.filter((j) => j.pid === 'A').map((j) => j.arrivalTime)).toEqual([0, 2, 4, 6]);
+    expect(jobs.filter((j) => j.pid === 'B').map((j) => j.arrivalTime)).toEqual([1, 4]);
+    expect(jobs).toContain(aperiodic);
+  });
+
+  it('should number the jobs of each task', () => {
+    const jobs = releaseJobs([task('A', 1, 2), task('B', 1, 4)]);
+    const a = jobs.filter((j) => j.pid === 'A');
+
+    expect(a.map((j) => j.job)).toEqual([0, 1]);
+    expect(a.map((j) => jobId(j))).toEqual(['A#0', 'A#1']);
+    expect(a.map((j) => jobRelease(task('A', 1, 2), j.job))).toEqual([0, 2]);
+    expect(jobId({ pid: 'X' })).toBe('X');
+  });
+
+  it('should cap long hyperperiods', () => {
+    const jobs = releaseJobs([task('A', 1, 997), task('B', 1, 991)]);
+    expect(jobs.every((j) => j.arrivalTime < MAX_HYPERPERIOD)).toBe(true);
+    expect(jobs).toHaveLength(4);
+  });
+});
+
+describe('absoluteDeadline', () => {
+  it('should count the deadline, or else the period, from the release', () => {
+    expect(absoluteDeadline({ ...task('A', 1, 5), arrivalTime: 10 })).toBe(15);
+    expect(absoluteDeadline({ ...task('A', 1, 5, 3), arrivalTime: 10 })).toBe(13);
+    expect(absoluteDeadline({ ...task('X', 1, 1), period: undefined })).toBe(Infinity);
+  });
+});
+
+describe('schedulability', () => {
+  it('should compute the Liu & Layland bound', () => {
+    expect(liuLaylandBound(1)).toBe(1);
+    expect(liuLaylandBound(2)).toBeCloseTo(0.8284);
+    expect(liuLaylandBound(3)).toBeCloseTo(0.7798);
+  });
+
+  it('should guarantee RM up to the bound and leave the rest to the simulation', () => {
+    const below = schedulability([task('A', 1, 4), task('B', 2, 6)], 'RM');
+    expect(below).toMatchObject({ tasks: 2, verdict: 'schedulable' });
+    expect(below.utilization).toBeCloseTo(0.5833);
+
+    const above = schedulability([task('A', 2, 5), task('B', 4, 7)], 'RM');
+    expect(above.verdict).toBe('inconclusive');
+    expect(above.reason).toBe('U = 0.971 > 0.828 = n(2^(1/n) - 1) for n = 2');
+  });
+
+  it('should accept EDF up to a utilization of 1', () => {
+    expect(schedulability([task('A', 2, 5), task('B', 4, 7)], 'EDF').verdict).toBe('schedulable');
+    expect(schedulability([task('A', 3, 5), task('B', 4, 7)], 'EDF')).toMatchObject({
+      verdict: 'not-schedulable',
+      reason: 'U = 1.171 > 1: the tasks need more than one CPU',
+    });
+  });
+
+  it('should fall back to the density for deadlines shorter than periods', () => {
+    const loose = [task('A', 1, 4, 2), task('B', 1, 8)];
+    const tight = [task('A', 2, 4, 2), task('B', 1, 8, 4)];
+
+    expect(schedulability(loose, 'EDF').verdict).toBe('schedulable');
+    expect(schedulability(tight, 'EDF').verdict).toBe('inconclusive');
+    expect(schedulability(loose, 'RM').verdict).toBe('inconclusive');
+  });
+});
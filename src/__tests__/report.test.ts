@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { reportSettings, formulaWorking, formatNumber } from '../lib/report';
+import { simulateSchedule } from '../lib/scheduler';
+import type { Process } from '../types';
+
+describe('reportSettings', () => {
+  it('should list the algorithm and only the parameters it uses', () => {
+    expect(reportSettings('RoundRobin', 3, {})).toEqual([
+      { label: 'Algorithm', value: 'Round Robin (RR)' },
+      { label: 'Type', value: 'Preemptive' },
+      { label: 'Time Quantum', value: '3' },
+    ]);
+    expect(reportSettings('FCFS', 3, { aging: { step: 1, interval: 5 } })).toHaveLength(2);
+  });
+
+  it('should describe aging, MLFQ queues, cores and context switches', () => {
+    const options = {
+      aging: { step: 2, interval: 5 },
+      cores: 2,
+      queueMode: 'per-core' as const,
+      contextSwitchCost: 0.5,
+    };
+
+    expect(reportSettings('Priority', 2, options).slice(2)).toEqual([
+      { label: 'Aging', value: '-2 priority every 5 units waited' },
+      { label: 'CPU cores', value: '2 (per-core queues)' },
+      { label: 'Context switch', value: '0.5 units' },
+    ]);
+    expect(reportSettings('MLFQ', 2, {})[2]).toEqual({
+      label: 'Queues',
+      value: 'Q0 RR q=2, Q1 RR q=4, Q2 FCFS',
+    });
+  });
+});
+
+describe('formulaWorking', () => {
+  it('should show each formula with the process values filled in', () => {
+    const processes: Process[] = [
+      { pid: 'P1', arrivalTime: 0, burstTime: 5, priority: 1, insertionOrder: 0 },
+      { pid: 'P2', arrivalTime: 1, burstTime: 3, priority: 1, insertionOrder: 1 },
+    ];
+    const [, p2] = simulateSchedule(processes, 'FCFS').processMetrics;
+
+    expect(formulaWorking(p2)).toEqual([
+      'TAT = CT - AT = 8 - 1 = 7',
+      'WT = CT - AT - BT = 8 - 1 - 3 = 4',
+      'RT = Start - AT = 5 - 1 = 4',
+    ]);
+  });
+
+  it('should subtract I/O time from the waiting time', () => {
+    const processes: Process[] = [
+      { pid: 'P1', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 0, bursts: [1, 2, 2] },
+    ];
+    const [p1] = simulateSchedule(processes, 'FCFS').processMetrics;
+
+    expect(formulaWorking(p1)[1]).toBe('WT = CT - AT - BT - IO = 5 - 0 - 3 - 2 = 0');
+  });
+
+  it('should add up the jobs of a periodic task', () => {
+    const processes: Process[] = [
+      { pid: 'T1', arrivalTime: 0, burstTime: 2, priority: 1, insertionOrder: 0, period: 5 },
+      { pid: 'T2', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 1, period: 7 },
+    ];
+    const [, t2] = simulateSchedule(processes, 'EDF').processMetrics;
+
+    // Five jobs of T2 over the hyperperiod of 35
+    expect(formulaWorking(t2)[1]).toBe('WT = Σ(job CT - release) - BT = 26 - 20 = 6');
+  });
+});
+
+describe('formatNumber', () => {
+  it('should keep whole numbers and round the rest to two decimals', () => {
+    expect(formatNumber(4)).toBe('4');
+    expect(formatNumber(2.5)).toBe('2.5');
+    expect(formatNumber(10 / 3)).toBe('3.33');
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILT_IN_SCENARIOS,
+  loadWorkspace,
+  saveWorkspace,
+  loadLibrary,
+  saveLibrary,
+  saveScenario,
+  renameScenario,
+  deleteScenario,
+  duplicateScenario,
+  type ScenarioStorage,
+} from '../lib/scenarios';
+import { simulateSchedule, validateProcess, getExampleProcesses } from '../lib/scheduler';
+import type { Scenario, Workspace } from '../types';
+
+function memoryStorage(): ScenarioStorage & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => {
+      data.set(key, value);
+    },
+  };
+}
+
+const scenario = (name: string): Scenario => ({
+  name,
+  processes: getExampleProcesses(),
+  algorithm: 'RoundRobin',
+  quantum: 3,
+});
+
+describe('built-in scenarios', () => {
+  it('should have unique names and valid processes', () => {
+    const names = BUILT_IN_SCENARIOS.map((s) => s.name);
+
+    expect(new Set(names).size).toBe(names.length);
+    BUILT_IN_SCENARIOS.forEach((s) => {
+      s.processes.forEach((p) => expect(validateProcess(p).valid).toBe(true));
+    });
+  });
+
+  it('should include the example processes', () => {
+    const example = BUILT_IN_SCENARIOS.find((s) => s.name === 'Example')!;
+
+    expect(example.processes).toEqual(getExampleProcesses());
+  });
+
+  it('should starve the low-priority job in the starvation scenario', () => {
+    const starvation = BUILT_IN_SCENARIOS.find((s) => s.name === 'Starvation')!;
+    const result = simulateSchedule(starvation.processes, starvation.algorithm, 2, {
+      starvationThreshold: 20,
+    });
+
+    expect(result.processMetrics.find((m) => m.pid === 'LOW')!.starved).toBe(true);
+  });
+});
+
+describe('workspace autosave', () => {
+  it('should round-trip processes, algorithm and options', () => {
+    const storage = memoryStorage();
+    const workspace: Workspace = {
+      processes: getExampleProcesses(),
+      algorithm: 'MLFQ',
+      quantum: 4,
+      options: {
+        mlfq: { levels: [{ quantum: 3, policy: 'RR' }], boostInterval: 10 },
+        aging: { step: 2, interval: 5 },
+        contextSwitchCost: 0.5,
+        cores: 2,
+        queueMode: 'per-core',
+        starvationThreshold: 15,
+        params: { seed: 7 },
+      },
+    };
+
+    saveWorkspace(workspace, storage);
+
+    expect(loadWorkspace(storage)).toEqual(workspace);
+  });
+
+  it('should ignore missing, corrupt or malformed data', () => {
+    const storage = memoryStorage();
+    expect(loadWorkspace(storage)).toBeNull();
+
+    storage.setItem('workspace', '{not json');
+    expect(loadWorkspace(storage)).toBeNull();
+
+    storage.setItem('workspace', JSON.stringify({ version: 1, file: { version: 1 } }));
+    expect(loadWorkspace(storage)).toBeNull();
+  });
+
+  it('should keep invalid, duplicate and empty process lists with their options', () => {
+    const storage = memoryStorage();
+    const [p1, p2] = getExampleProcesses();
+    const workspaces: Workspace[] = [
+      [{ ...p1, burstTime: 0 }, p2],
+      [p1, { ...p2, pid: p1.pid }],
+      [],
+    ].map((processes) => ({
+      processes,
+      algorithm: 'RoundRobin',
+      quantum: 3,
+      options: { cores: 2, params: { quantum: 3 } },
+    }));
+
+    for (const workspace of workspaces) {
+      saveWorkspace(workspace, storage);
+      expect(loadWorkspace(storage)).toEqual(workspace);
+    }
+  });
+
+  it('should drop malformed options', () => {
+    const storage = memoryStorage();
+    saveWorkspace(
+      { processes: getExampleProcesses(), algorithm: 'FCFS', quantum: 2, options: {} },
+      storage
+    );
+    const stored = JSON.parse(storage.data.get('workspace')!);
+    stored.options = { cores: 0, queueMode: 'weird', contextSwitchCost: 1, mlfq: { levels: [] } };
+    storage.setItem('workspace', JSON.stringify(stored));
+
+    expect(loadWorkspace(storage)!.options).toEqual({ contextSwitchCost: 1 });
+  });
+});
+
+describe('scenario library', () => {
+  it('should save, replace and persist scenarios', () => {
+    const storage = memoryStorage();
+    let library = saveScenario([], scenario('Lab 1'));
+    library = saveScenario(library, { ...scenario('Lab 1'), quantum: 5 });
+    library = saveScenario(library, scenario('Lab 2'));
+
+    expect(library.map((s) => [s.name, s.quantum])).toEqual([
+      ['Lab 1', 5],
+      ['Lab 2', 3],
+    ]);
+
+    saveLibrary(library, storage);
+    expect(loadLibrary(storage)).toEqual(library);
+  });
+
+  it('should rename without creating duplicate names', () => {
+    const library = [scenario('A'), scenario('B')];
+
+    expect(renameScenario(library, 'A', 'C').map((s) => s.name)).toEqual(['C', 'B']);
+    expect(renameScenario(library, 'A', 'B').map((s) => s.name)).toEqual(['B 2', 'B']);
+    expect(renameScenario(library, 'A', '  ')).toBe(library);
+  });
+
+  it('should duplicate and delete scenarios', () => {
+    let library = [scenario('A'), scenario('B')];
+    library = duplicateScenario(library, 'A');
+    library = duplicateScenario(library, 'A');
+
+    expect(library.map((s) => s.name)).toEqual(['A', 'A (copy) 2', 'A (copy)', 'B']);
+    expect(deleteScenario(library, 'A (copy)').map((s) => s.name)).toEqual([
+      'A',
+      'A (copy) 2',
+      'B',
+    ]);
+  });
+
+  it('should skip unreadable library entries', () => {
+    const storage = memoryStorage();
+    saveLibrary([scenario('Good')], storage);
+    const stored = JSON.parse(storage.data.get('scenarioLibrary')!);
+    stored.scenarios.push({ name: 'Bad', file: { version: 1, processes: 'none' } });
+    storage.setItem('scenarioLibrary', JSON.stringify(stored));
+
+    expect(loadLibrary(storage).map((s) => s.name)).toEqual(['Good']);
+  });
+
+  it('should keep scenarios with invalid or duplicate processes', () => {
+    const storage = memoryStorage();
+    const [p1, p2] = getExampleProcesses();
+    const library = [
+      { ...scenario('Invalid'), processes: [{ ...p1, burstTime: 0 }] },
+      { ...scenario('Duplicate'), processes: [p1, { ...p2, pid: p1.pid }] },
+    ];
+
+    saveLibrary(library, storage);
+    expect(loadLibrary(storage)).toEqual(library);
+  });
+});
@@ -1,6 +1,19 @@
 import { describe, it, expect } from 'vitest';
-import { simulateSchedule, validateProcess, getExampleProcesses } from '../lib/scheduler';
-import type { Process } from '../types';
+import {
+  simulateSchedule,
+  compareAlgorithms,
+  ALL_ALGORITHMS,
+  ALGORITHMS,
+  getAlgorithm,
+  resolveParams,
+  readyQueuesAt,
+  validateProcess,
+  getExampleProcesses,
+  parseNumberList,
+  formatBurstSequence,
+  agedPriority,
+} from '../lib/scheduler';
+import type { Process, Algorithm } from '../types';
 
 describe('simulateSchedule', () => {
   describe('FCFS (First Come First Served)', () => {
@@ -124,6 +137,99 @@ describe('simulateSchedule', () => {
     });
   });
 
+  describe('SJF and SRTF with Burst Prediction', () => {
+    it('should rank by the predicted burst, not the real one', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 8, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 0, burstTime: 2, priority: 1, insertionOrder: 1 },
+      ];
+
+      // Both start at tau0 = 5, so the tie-break decides where SJF would pick P2
+      expect(simulateSchedule(processes, 'SJF').ganttChart[0].pid).toBe('P2');
+      expect(simulateSchedule(processes, 'SJF-Predicted').ganttChart).toEqual([
+        { pid: 'P1', start: 0, end: 8, detail: 'Predicted 5; actual 8' },
+        { pid: 'P2', start: 8, end: 10, detail: 'Predicted 5; actual 2' },
+      ]);
+    });
+
+    it('should learn from each finished CPU burst', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 0, bursts: [2, 1, 2] },
+        { pid: 'P2', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 1 },
+        { pid: 'P3', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 2 },
+      ];
+
+      const result = simulateSchedule(processes, 'SJF-Predicted', 2, {
+        params: { alpha: 0.5, tau0: 5 },
+      });
+
+      // After its first burst of 2, P1 is predicted at 0.5 * 2 + 0.5 * 5 = 3.5 and overtakes P3
+      expect(result.ganttChart.map((s) => [s.pid, s.start, s.end, s.detail])).toEqual([
+        ['P1', 0, 2, 'Predicted 5; actual 2'],
+        ['P2', 2, 5, 'Predicted 5; actual 3'],
+        ['P1', 5, 7, 'Predicted 3.5; actual 2'],
+        ['P3', 7, 10, 'Predicted 5; actual 3'],
+      ]);
+    });
+
+    it('should preempt on a shorter predicted remaining time', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 0, bursts: [1, 1, 1, 1, 1] },
+        { pid: 'P2', arrivalTime: 0, burstTime: 6, priority: 1, insertionOrder: 1 },
+      ];
+
+      const result = simulateSchedule(processes, 'SRTF-Predicted', 2, {
+        params: { alpha: 0.5, tau0: 4 },
+      });
+
+      // P1 returns from I/O predicted at 2.5, below the 3 P2 is predicted to have left
+      expect(result.ganttChart.slice(0, 4).map((s) => [s.pid, s.start, s.end])).toEqual([
+        ['P1', 0, 1],
+        ['P2', 1, 2],
+        ['P1', 2, 3],
+        ['P2', 3, 4],
+      ]);
+      expect(result.ganttChart[3].detail).toBe('Predicted 4, 3 left; actual 6');
+    });
+  });
+
+  describe('HRRN (Highest Response Ratio Next)', () => {
+    // Stallings' textbook workload
+    const processes: Process[] = [
+      { pid: 'P1', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 0 },
+      { pid: 'P2', arrivalTime: 2, burstTime: 6, priority: 1, insertionOrder: 1 },
+      { pid: 'P3', arrivalTime: 4, burstTime: 4, priority: 1, insertionOrder: 2 },
+      { pid: 'P4', arrivalTime: 6, burstTime: 5, priority: 1, insertionOrder: 3 },
+      { pid: 'P5', arrivalTime: 8, burstTime: 2, priority: 1, insertionOrder: 4 },
+    ];
+
+    it('should run the highest response ratio next', () => {
+      const result = simulateSchedule(processes, 'HRRN');
+
+      // At t=9 P3 (2.25) beats P5, which SJF would pick; at t=13 P5 (3.5) beats P4 (2.4)
+      expect(result.ganttChart.map((s) => [s.pid, s.start, s.end])).toEqual([
+        ['P1', 0, 3],
+        ['P2', 3, 9],
+        ['P3', 9, 13],
+        ['P5', 13, 15],
+        ['P4', 15, 20],
+      ]);
+    });
+
+    it('should show the ratios of every ready process at each dispatch', () => {
+      const result = simulateSchedule(processes, 'HRRN');
+      const dispatches = result.events.filter((e) => e.type === 'dispatch');
+
+      expect(dispatches[0].detail).toBe('Ratio 1 = (0 + 3) / 3');
+      expect(dispatches[2]).toMatchObject({
+        time: 9,
+        detail: 'Ratio 2.25 = (5 + 4) / 4; others: P4 1.6, P5 1.5',
+        readyQueue: ['P4', 'P5'],
+      });
+      expect(result.ganttChart[2].detail).toBe(dispatches[2].detail);
+    });
+  });
+
   describe('Priority Scheduling', () => {
     it('should select process with highest priority (lowest number)', () => {
       const processes: Process[] = [
@@ -168,6 +274,76 @@ describe('simulateSchedule', () => {
     });
   });
 
+  describe('Priority Aging', () => {
+    it('should lower the priority number by step per full interval waited', () => {
+      const aging = { step: 2, interval: 3 };
+
+      expect(agedPriority(5, 2.9, aging)).toBe(5);
+      expect(agedPriority(5, 3, aging)).toBe(3);
+      expect(agedPriority(5, 9, aging)).toBe(0);
+      expect(agedPriority(5, 9, undefined)).toBe(5);
+      expect(agedPriority(5, 9, { step: 2, interval: 0 })).toBe(5);
+    });
+
+    it('should let an aged process overtake a newer high-priority one', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 1, burstTime: 3, priority: 3, insertionOrder: 1 },
+        { pid: 'P3', arrivalTime: 3, burstTime: 3, priority: 1, insertionOrder: 2 },
+      ];
+
+      const plain = simulateSchedule(processes, 'Priority');
+      expect(plain.ganttChart.map((s) => s.pid)).toEqual(['P1', 'P3', 'P2']);
+
+      // P2 waits 3 units by t=4 and reaches priority 0
+      const aged = simulateSchedule(processes, 'Priority', 2, {
+        aging: { step: 1, interval: 1 },
+      });
+      expect(aged.ganttChart).toEqual([
+        { pid: 'P1', start: 0, end: 4, detail: 'Effective priority 1 (base 1)' },
+        { pid: 'P2', start: 4, end: 7, detail: 'Effective priority 0 (base 3)' },
+        { pid: 'P3', start: 7, end: 10, detail: 'Effective priority 0 (base 1)' },
+      ]);
+    });
+
+    it('should preempt once a waiting process ages past the running one', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 6, priority: 2, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 1, burstTime: 6, priority: 1, insertionOrder: 1 },
+      ];
+
+      const plain = simulateSchedule(processes, 'Priority-P');
+      expect(plain.ganttChart.map((s) => [s.pid, s.start, s.end])).toEqual([
+        ['P1', 0, 1],
+        ['P2', 1, 7],
+        ['P1', 7, 12],
+      ]);
+
+      // P1 ties P2 at t=3 (no preemption) and beats it at t=5
+      const aged = simulateSchedule(processes, 'Priority-P', 2, {
+        aging: { step: 1, interval: 2 },
+      });
+      expect(aged.ganttChart.map((s) => [s.pid, s.start, s.end])).toEqual([
+        ['P1', 0, 1],
+        ['P2', 1, 5],
+        ['P1', 5, 10],
+        ['P2', 10, 12],
+      ]);
+      expect(aged.ganttChart[2].detail).toBe('Effective priority 0 (base 2)');
+    });
+
+    it('should ignore aging when the interval is 0', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 6, priority: 2, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 1, burstTime: 6, priority: 1, insertionOrder: 1 },
+      ];
+
+      expect(
+        simulateSchedule(processes, 'Priority-P', 2, { aging: { step: 1, interval: 0 } })
+      ).toEqual(simulateSchedule(processes, 'Priority-P'));
+    });
+  });
+
   describe('Round Robin', () => {
     it('should preempt processes after time quantum', () => {
       const processes: Process[] = [
@@ -244,6 +420,807 @@ describe('simulateSchedule', () => {
     });
   });
 
+  describe('MLFQ (Multilevel Feedback Queue)', () => {
+    const levels = [
+      { quantum: 2, policy: 'RR' as const },
+      { quantum: 4, policy: 'RR' as const },
+      { quantum: 8, policy: 'FCFS' as const },
+    ];
+
+    it('should demote a process each time it uses its whole quantum', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 10, priority: 1, insertionOrder: 0 },
+      ];
+
+      const result = simulateSchedule(processes, 'MLFQ', 2, {
+        mlfq: { levels, boostInterval: 0 },
+      });
+
+      // Level 0 (q=2), level 1 (q=4), then FCFS to completion
+      expect(result.ganttChart).toEqual([
+        { pid: 'P1', start: 0, end: 2 },
+        { pid: 'P1', start: 2, end: 6 },
+        { pid: 'P1', start: 6, end: 10 },
+      ]);
+    });
+
+    it('should preempt a lower queue when a new process arrives', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 6, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 3, burstTime: 1, priority: 1, insertionOrder: 1 },
+      ];
+
+      const result = simulateSchedule(processes, 'MLFQ', 2, {
+        mlfq: { levels: [levels[0], levels[2]], boostInterval: 0 },
+      });
+
+      // P1 is demoted at t=2, then preempted by P2 entering the top queue at t=3
+      expect(result.ganttChart).toEqual([
+        { pid: 'P1', start: 0, end: 2 },
+        { pid: 'P1', start: 2, end: 3 },
+        { pid: 'P2', start: 3, end: 4 },
+        { pid: 'P1', start: 4, end: 7 },
+      ]);
+    });
+
+    it('should move every process back to the top queue on a boost', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 6, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 1 },
+      ];
+
+      const result = simulateSchedule(processes, 'MLFQ', 2, {
+        mlfq: {
+          levels: [
+            { quantum: 1, policy: 'RR' },
+            { quantum: 1, policy: 'FCFS' },
+          ],
+          boostInterval: 4,
+        },
+      });
+
+      // At t=4 P1 keeps the CPU but only gets a fresh top-level quantum
+      expect(result.ganttChart).toEqual([
+        { pid: 'P1', start: 0, end: 1 },
+        { pid: 'P2', start: 1, end: 2 },
+        { pid: 'P1', start: 2, end: 5 },
+        { pid: 'P2', start: 5, end: 6 },
+        { pid: 'P1', start: 6, end: 8 },
+        { pid: 'P2', start: 8, end: 9 },
+      ]);
+    });
+
+    it('should behave like Round Robin with a single RR level', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 5, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 1, burstTime: 3, priority: 1, insertionOrder: 1 },
+        { pid: 'P3', arrivalTime: 6, burstTime: 2, priority: 1, insertionOrder: 2 },
+      ];
+
+      const mlfq = simulateSchedule(processes, 'MLFQ', 2, {
+        mlfq: { levels: [{ quantum: 2, policy: 'RR' }], boostInterval: 0 },
+      });
+      const rr = simulateSchedule(processes, 'RoundRobin', 2);
+
+      expect(mlfq.ganttChart).toEqual(rr.ganttChart);
+    });
+  });
+
+  describe('Lottery Scheduling', () => {
+    const processes: Process[] = [
+      { pid: 'A', arrivalTime: 0, burstTime: 300, priority: 1, insertionOrder: 0, tickets: 300 },
+      { pid: 'B', arrivalTime: 0, burstTime: 300, priority: 1, insertionOrder: 1, tickets: 100 },
+    ];
+    const cpuUntil = (result: ReturnType<typeof simulateSchedule>, pid: string, time: number) =>
+      result.ganttChart
+        .filter((s) => s.pid === pid && s.start < time)
+        .reduce((sum, s) => sum + Math.min(s.end, time) - s.start, 0);
+
+    it('should replay the same run for the same seed', () => {
+      const first = simulateSchedule(processes, 'Lottery', 1, { params: { seed: 7 } });
+      const again = simulateSchedule(processes, 'Lottery', 1, { params: { seed: 7 } });
+      const other = simulateSchedule(processes, 'Lottery', 1, { params: { seed: 8 } });
+
+      expect(again.ganttChart).toEqual(first.ganttChart);
+      expect(other.ganttChart).not.toEqual(first.ganttChart);
+    });
+
+    it('should give each process a CPU share close to its ticket share', () => {
+      const result = simulateSchedule(processes, 'Lottery', 1, { params: { seed: 3 } });
+
+      // While both compete (first 200 units), A should get about 3/4 of the CPU
+      expect(cpuUntil(result, 'A', 200) / 200).toBeGreaterThan(0.65);
+      expect(cpuUntil(result, 'A', 200) / 200).toBeLessThan(0.85);
+    });
+
+    it('should note the winning ticket in the trace', () => {
+      const result = simulateSchedule(processes, 'Lottery', 1);
+      const dispatch = result.events.find((e) => e.type === 'dispatch');
+
+      expect(dispatch?.detail).toMatch(/^Ticket \d+ of 400 \(holds (300|100)\)$/);
+    });
+
+    it('should give processes without tickets equal shares', () => {
+      const equal = processes.map((p) => ({ ...p, tickets: undefined }));
+      const result = simulateSchedule(equal, 'Lottery', 1, { params: { seed: 5 } });
+
+      expect(cpuUntil(result, 'A', 200) / 200).toBeGreaterThan(0.4);
+      expect(cpuUntil(result, 'A', 200) / 200).toBeLessThan(0.6);
+    });
+  });
+
+  describe('Stride Scheduling', () => {
+    it('should run the lowest pass and split the CPU by tickets', () => {
+      const processes: Process[] = [
+        { pid: 'A', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 0, tickets: 200 },
+        { pid: 'B', arrivalTime: 0, burstTime: 2, priority: 1, insertionOrder: 1, tickets: 100 },
+      ];
+
+      const result = simulateSchedule(processes, 'Stride', 1);
+
+      // Strides 50 and 100: A B A A B A
+      expect(result.ganttChart.map((s) => s.pid)).toEqual(['A', 'B', 'A', 'A', 'B', 'A']);
+      expect(result.events.find((e) => e.type === 'dispatch')?.detail).toBe('Pass 0, stride 50');
+    });
+
+    it('should start late arrivals at the current pass', () => {
+      const processes: Process[] = [
+        { pid: 'A', arrivalTime: 0, burstTime: 6, priority: 1, insertionOrder: 0 },
+        { pid: 'B', arrivalTime: 4, burstTime: 2, priority: 1, insertionOrder: 1 },
+      ];
+
+      const result = simulateSchedule(processes, 'Stride', 1);
+
+      // B arrives with A's pass instead of 0, so it does not run alone until it catches up
+      expect(result.ganttChart.slice(3).map((s) => [s.pid, s.start])).toEqual([
+        ['A', 3],
+        ['B', 4],
+        ['A', 5],
+        ['B', 6],
+        ['A', 7],
+      ]);
+    });
+  });
+
+  describe('CFS (Completely Fair Scheduler)', () => {
+    it('should split the target latency evenly between equal nice values', () => {
+      const processes: Process[] = [
+        { pid: 'A', arrivalTime: 0, burstTime: 6, priority: 20, insertionOrder: 0 },
+        { pid: 'B', arrivalTime: 0, burstTime: 6, priority: 20, insertionOrder: 1 },
+      ];
+
+      const result = simulateSchedule(processes, 'CFS');
+
+      expect(result.ganttChart.map((s) => [s.pid, s.start, s.end])).toEqual([
+        ['A', 0, 3],
+        ['B', 3, 6],
+        ['A', 6, 9],
+        ['B', 9, 12],
+      ]);
+      expect(result.events.filter((e) => e.type === 'dispatch').map((e) => e.detail)).toEqual([
+        'vruntime 0, slice 3, nice 0 (weight 1024)',
+        'vruntime 0, slice 3, nice 0 (weight 1024)',
+        'vruntime 3, slice 3, nice 0 (weight 1024)',
+        'vruntime 3, slice 6, nice 0 (weight 1024)',
+      ]);
+    });
+
+    it('should give lower nice values a larger slice', () => {
+      const processes: Process[] = [
+        { pid: 'A', arrivalTime: 0, burstTime: 20, priority: 20, insertionOrder: 0 },
+        { pid: 'B', arrivalTime: 0, burstTime: 20, priority: 25, insertionOrder: 1 },
+      ];
+
+      const [a, b] = simulateSchedule(processes, 'CFS').ganttChart;
+
+      // Weights 1024 and 335 share a period of 6
+      expect(a.end - a.start).toBeCloseTo((6 * 1024) / 1359);
+      expect(b.end - b.start).toBeCloseTo((6 * 335) / 1359);
+    });
+
+    it('should stretch the period to the minimum granularity per process', () => {
+      const processes: Process[] = Array.from({ length: 10 }, (_, i) => ({
+        pid: `P${i + 1}`,
+        arrivalTime: 0,
+        burstTime: 2,
+        priority: 20,
+        insertionOrder: i,
+      }));
+
+      const result = simulateSchedule(processes, 'CFS', 2, {
+        params: { targetLatency: 4, minGranularity: 1 },
+      });
+
+      expect(result.ganttChart[0]).toMatchObject({ pid: 'P1', start: 0, end: 1 });
+      expect(result.ganttChart[1]).toMatchObject({ pid: 'P2', start: 1, end: 2 });
+    });
+
+    it('should limit the credit a process earns while blocked', () => {
+      const processes: Process[] = [
+        { pid: 'A', arrivalTime: 0, burstTime: 2, priority: 20, insertionOrder: 0, bursts: [1, 10, 1] },
+        { pid: 'B', arrivalTime: 0, burstTime: 20, priority: 20, insertionOrder: 1 },
+      ];
+
+      const result = simulateSchedule(processes, 'CFS');
+      const returned = result.events.find((e) => e.type === 'dispatch' && e.time === 13);
+
+      // A slept at vruntime 1; it wakes at min_vruntime - latency / 2 = 6 - 3
+      expect(returned).toMatchObject({ pid: 'A', detail: 'vruntime 3, slice 3, nice 0 (weight 1024)' });
+    });
+
+    it('should read priority 20 as nice 0, covering nice -20 to 19', () => {
+      const processes: Process[] = [
+        { pid: 'A', arrivalTime: 0, burstTime: 1, priority: 0, insertionOrder: 0 },
+        { pid: 'B', arrivalTime: 5, burstTime: 1, priority: 45, insertionOrder: 1 },
+      ];
+
+      const result = simulateSchedule(processes, 'CFS');
+
+      expect(result.ganttChart[0].detail).toBe('vruntime 0, slice 6, nice -20 (weight 88761)');
+      expect(result.ganttChart[2].detail).toBe('vruntime 0, slice 6, nice 19 (weight 15)');
+    });
+  });
+
+  describe('EDF and Rate Monotonic', () => {
+    // U = 2/5 + 4/7 = 0.97: above the Liu & Layland bound for two tasks
+    const tasks: Process[] = [
+      { pid: 'T1', arrivalTime: 0, burstTime: 2, priority: 1, insertionOrder: 0, period: 5 },
+      { pid: 'T2', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 1, period: 7 },
+    ];
+
+    it('should meet every deadline under EDF', () => {
+      const result = simulateSchedule(tasks, 'EDF');
+      const [t1, t2] = result.processMetrics;
+
+      expect(result.ganttChart.slice(0, 4).map((s) => [s.pid, s.start, s.end])).toEqual([
+        ['T1', 0, 2],
+        ['T2', 2, 6],
+        ['T1', 6, 8],
+        ['T2', 8, 12],
+      ]);
+      expect(result.ganttChart[1].detail).toBe('Deadline 7');
+      // Seven and five jobs over the hyperperiod of 35
+      expect(t1.jobs).toHaveLength(7);
+      expect(t2.jobs).toHaveLength(5);
+      expect([...t1.jobs!, ...t2.jobs!].some((job) => job.missed)).toBe(false);
+      expect(t1.burstTime).toBe(14);
+    });
+
+    it('should miss a deadline under RM, where the shorter period always wins', () => {
+      const result = simulateSchedule(tasks, 'RM');
+      const t2 = result.processMetrics[1];
+
+      // T1's second job preempts T2 at 5, so T2's first job ends at 8, after its deadline of 7
+      expect(result.ganttChart.slice(0, 4).map((s) => [s.pid, s.start, s.end])).toEqual([
+        ['T1', 0, 2],
+        ['T2', 2, 5],
+        ['T1', 5, 7],
+        ['T2', 7, 8],
+      ]);
+      expect(t2.jobs![0]).toEqual({ release: 0, deadline: 7, completion: 8, missed: true });
+      expect(t2.jobs!.filter((job) => job.missed)).toHaveLength(1);
+    });
+
+    it('should count waiting time within jobs only', () => {
+      const result = simulateSchedule(tasks, 'EDF');
+      const t2 = result.processMetrics[1];
+
+      // Idle time between jobs is not waiting
+      const jobTime = t2.jobs!.reduce((sum, job) => sum + job.completion - job.release, 0);
+      expect(t2.waitingTime).toBe(jobTime - 20);
+      expect(t2.waitingTime).toBeLessThan(t2.turnaroundTime - t2.burstTime);
+    });
+
+    it('should tell apart pending jobs of the same task', () => {
+      const behind: Process[] = [
+        { pid: 'T1', arrivalTime: 0, burstTime: 2, priority: 1, insertionOrder: 0, period: 3 },
+        { pid: 'T2', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 1, period: 5 },
+      ];
+
+      const { events } = simulateSchedule(behind, 'RM');
+
+      // T2's second job is released at 5 while its first is still unfinished
+      expect(events.find((e) => e.type === 'arrival' && e.time === 5)).toMatchObject({
+        pid: 'T2',
+        job: 1,
+        readyQueue: ['T2', 'T2'],
+        readyJobs: [0, 1],
+      });
+      expect(readyQueuesAt(events, 5)).toEqual([[{ pid: 'T2', job: 1 }]]);
+      expect(readyQueuesAt(events, 6)).toEqual([
+        [
+          { pid: 'T2', job: 0 },
+          { pid: 'T2', job: 1 },
+        ],
+      ]);
+    });
+
+    it('should record the completion of each job even when they finish out of order', () => {
+      const behind: Process[] = [
+        { pid: 'T1', arrivalTime: 0, burstTime: 2, priority: 1, insertionOrder: 0, period: 3 },
+        { pid: 'T2', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 1, period: 5 },
+      ];
+
+      const result = simulateSchedule(behind, 'Lottery', 1, { params: { seed: 2 } });
+      const completions = result.events.filter((e) => e.type === 'complete' && e.pid === 'T2');
+
+      // The draws finish T2's third job before its second
+      expect(completions.map((e) => [e.job, e.time])).toEqual([
+        [0, 6],
+        [2, 14],
+        [1, 18],
+      ]);
+      expect(result.processMetrics[1].jobs!.map((job) => job.completion)).toEqual([6, 18, 14]);
+    });
+
+    it('should run aperiodic deadlines by EDF and rank processes without one last', () => {
+      const processes: Process[] = [
+        { pid: 'A', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 0 },
+        { pid: 'B', arrivalTime: 1, burstTime: 2, priority: 1, insertionOrder: 1, deadline: 4 },
+        { pid: 'C', arrivalTime: 1, burstTime: 1, priority: 1, insertionOrder: 2, deadline: 2 },
+      ];
+
+      const result = simulateSchedule(processes, 'EDF');
+
+      expect(result.ganttChart.map((s) => s.pid)).toEqual(['A', 'C', 'B', 'A']);
+      expect(result.processMetrics[0].jobs).toBeUndefined();
+      expect(result.processMetrics[1].jobs).toEqual([
+        { release: 1, deadline: 5, completion: 4, missed: false },
+      ]);
+    });
+  });
+
+  describe('Context Switch Overhead', () => {
+    it('should insert a switch segment between different processes', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 5, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 1 },
+      ];
+
+      const result = simulateSchedule(processes, 'RoundRobin', 2, { contextSwitchCost: 1 });
+
+      expect(result.ganttChart).toEqual([
+        { pid: 'P1', start: 0, end: 2 },
+        { pid: null, start: 2, end: 3, kind: 'switch' },
+        { pid: 'P2', start: 3, end: 5 },
+        { pid: null, start: 5, end: 6, kind: 'switch' },
+        { pid: 'P1', start: 6, end: 8 },
+        { pid: null, start: 8, end: 9, kind: 'switch' },
+        { pid: 'P2', start: 9, end: 10 },
+        { pid: null, start: 10, end: 11, kind: 'switch' },
+        { pid: 'P1', start: 11, end: 12 },
+      ]);
+    });
+
+    it('should not switch when the same process is dispatched again', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 0 },
+      ];
+
+      const result = simulateSchedule(processes, 'RoundRobin', 2, { contextSwitchCost: 1 });
+
+      expect(result.ganttChart).toEqual([
+        { pid: 'P1', start: 0, end: 2 },
+        { pid: 'P1', start: 2, end: 4 },
+      ]);
+      expect(result.contextSwitches).toBe(0);
+    });
+
+    it('should switch after an idle gap when a different process arrives', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 2, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 5, burstTime: 3, priority: 1, insertionOrder: 1 },
+      ];
+
+      const result = simulateSchedule(processes, 'FCFS', 2, { contextSwitchCost: 1 });
+
+      expect(result.ganttChart).toEqual([
+        { pid: 'P1', start: 0, end: 2 },
+        { pid: null, start: 2, end: 5 },
+        { pid: null, start: 5, end: 6, kind: 'switch' },
+        { pid: 'P2', start: 6, end: 9 },
+      ]);
+    });
+
+    it('should report switch count, overhead and both utilizations', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 5, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 1 },
+      ];
+
+      const result = simulateSchedule(processes, 'RoundRobin', 2, { contextSwitchCost: 1 });
+
+      // 4 switches of 1 unit; 8 units of work in 12 units of time
+      expect(result.contextSwitches).toBe(4);
+      expect(result.switchOverhead).toBe(4);
+      expect(result.cpuUtilization).toBeCloseTo((8 / 12) * 100);
+      expect(result.cpuUtilizationWithOverhead).toBe(100);
+    });
+
+    it('should make a small quantum cost more than FCFS', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 6, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 0, burstTime: 6, priority: 1, insertionOrder: 1 },
+      ];
+
+      const fcfs = simulateSchedule(processes, 'FCFS', 1, { contextSwitchCost: 1 });
+      const rr = simulateSchedule(processes, 'RoundRobin', 1, { contextSwitchCost: 1 });
+
+      expect(rr.averageTurnaroundTime).toBeGreaterThan(fcfs.averageTurnaroundTime);
+    });
+
+    it('should wait for a switch to finish before preempting', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 6, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 1, burstTime: 3, priority: 1, insertionOrder: 1 },
+        { pid: 'P3', arrivalTime: 2, burstTime: 1, priority: 1, insertionOrder: 2 },
+      ];
+
+      const result = simulateSchedule(processes, 'SJF-P', 2, { contextSwitchCost: 2 });
+
+      // P2 preempts P1 at t=1; P3 arrives mid-switch and preempts P2 once it is loaded
+      expect(result.ganttChart).toEqual([
+        { pid: 'P1', start: 0, end: 1 },
+        { pid: null, start: 1, end: 3, kind: 'switch' },
+        { pid: null, start: 3, end: 5, kind: 'switch' },
+        { pid: 'P3', start: 5, end: 6 },
+        { pid: null, start: 6, end: 8, kind: 'switch' },
+        { pid: 'P2', start: 8, end: 11 },
+        { pid: null, start: 11, end: 13, kind: 'switch' },
+        { pid: 'P1', start: 13, end: 18 },
+      ]);
+    });
+  });
+
+  describe('I/O Bursts', () => {
+    it('should block a process during I/O and let others run', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 0, bursts: [2, 3, 2] },
+        { pid: 'P2', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 1 },
+      ];
+
+      const result = simulateSchedule(processes, 'FCFS');
+
+      // P1 does I/O from 2 to 5, but P2 holds the CPU until 6
+      expect(result.ganttChart).toEqual([
+        { pid: 'P1', start: 0, end: 2 },
+        { pid: 'P2', start: 2, end: 6 },
+        { pid: 'P1', start: 6, end: 8 },
+      ]);
+      expect(result.ioChart).toEqual([{ pid: 'P1', start: 2, end: 5 }]);
+    });
+
+    it('should leave the CPU idle while every process is blocked', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 2, priority: 1, insertionOrder: 0, bursts: [1, 4, 1] },
+      ];
+
+      const result = simulateSchedule(processes, 'RoundRobin', 2);
+
+      expect(result.ganttChart).toEqual([
+        { pid: 'P1', start: 0, end: 1 },
+        { pid: null, start: 1, end: 5 },
+        { pid: 'P1', start: 5, end: 6 },
+      ]);
+    });
+
+    it('should count I/O time separately from waiting time', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 0, bursts: [2, 3, 2] },
+        { pid: 'P2', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 1 },
+      ];
+
+      const result = simulateSchedule(processes, 'FCFS');
+
+      // P1: CT=8, TAT=8, CPU=4, IO=3, WT=8-4-3=1 (ready from 5 to 6)
+      expect(result.processMetrics.find((m) => m.pid === 'P1')).toMatchObject({
+        completionTime: 8,
+        turnaroundTime: 8,
+        burstTime: 4,
+        ioTime: 3,
+        waitingTime: 1,
+      });
+      expect(result.processMetrics.find((m) => m.pid === 'P2')).toMatchObject({
+        ioTime: 0,
+        waitingTime: 2,
+      });
+    });
+
+    it('should let SJF pick by the next CPU burst, not the total', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 0, bursts: [2, 5, 2] },
+        { pid: 'P2', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 1 },
+      ];
+
+      const result = simulateSchedule(processes, 'SJF');
+
+      expect(result.ganttChart).toEqual([
+        { pid: 'P1', start: 0, end: 2 },
+        { pid: 'P2', start: 2, end: 5 },
+        { pid: null, start: 5, end: 7 },
+        { pid: 'P1', start: 7, end: 9 },
+      ]);
+    });
+
+    it('should return from I/O ahead of a process whose quantum expired', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 0, bursts: [2, 2, 2] },
+        { pid: 'P2', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 1 },
+      ];
+
+      const result = simulateSchedule(processes, 'RoundRobin', 2);
+
+      // P1 finishes I/O at t=4, exactly when P2's quantum expires
+      expect(result.ganttChart).toEqual([
+        { pid: 'P1', start: 0, end: 2 },
+        { pid: 'P2', start: 2, end: 4 },
+        { pid: 'P1', start: 4, end: 6 },
+        { pid: 'P2', start: 6, end: 8 },
+      ]);
+    });
+  });
+
+  describe('Multi-core', () => {
+    it('should run processes on every core with a global queue', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 1 },
+        { pid: 'P3', arrivalTime: 0, burstTime: 2, priority: 1, insertionOrder: 2 },
+      ];
+
+      const result = simulateSchedule(processes, 'FCFS', 2, { cores: 2 });
+
+      expect(result.ganttChart.filter((s) => s.core === 0)).toEqual([
+        { pid: 'P1', start: 0, end: 4, core: 0 },
+        { pid: null, start: 4, end: 5, core: 0 },
+      ]);
+      expect(result.ganttChart.filter((s) => s.core === 1)).toEqual([
+        { pid: 'P2', start: 0, end: 3, core: 1 },
+        { pid: 'P3', start: 3, end: 5, core: 1 },
+      ]);
+    });
+
+    it('should report utilization per core and in aggregate', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 1 },
+        { pid: 'P3', arrivalTime: 0, burstTime: 2, priority: 1, insertionOrder: 2 },
+      ];
+
+      const result = simulateSchedule(processes, 'FCFS', 2, { cores: 2 });
+
+      // 9 units of work over 2 cores x 5 units
+      expect(result.coreUtilization).toEqual([80, 100]);
+      expect(result.cpuUtilization).toBe(90);
+    });
+
+    it('should respect processor affinity', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 0, affinity: [0] },
+        { pid: 'P2', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 1, affinity: [0] },
+      ];
+
+      const result = simulateSchedule(processes, 'FCFS', 2, { cores: 2 });
+
+      expect(result.ganttChart.filter((s) => s.pid !== null)).toEqual([
+        { pid: 'P1', start: 0, end: 4, core: 0 },
+        { pid: 'P2', start: 4, end: 7, core: 0 },
+      ]);
+    });
+
+    it('should keep processes on their own core with per-core queues', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 6, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 0, burstTime: 1, priority: 1, insertionOrder: 1 },
+        { pid: 'P3', arrivalTime: 0, burstTime: 1, priority: 1, insertionOrder: 2 },
+      ];
+
+      const global = simulateSchedule(processes, 'FCFS', 2, { cores: 2 });
+      const perCore = simulateSchedule(processes, 'FCFS', 2, {
+        cores: 2,
+        queueMode: 'per-core',
+      });
+
+      // P3 is homed on core 0 behind P1 instead of moving to the free core 1
+      expect(global.ganttChart.find((s) => s.pid === 'P3')).toEqual({
+        pid: 'P3', start: 1, end: 2, core: 1,
+      });
+      expect(perCore.ganttChart.find((s) => s.pid === 'P3')).toEqual({
+        pid: 'P3', start: 6, end: 7, core: 0,
+      });
+    });
+
+    it('should preempt the core running the worst process', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 8, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 0, burstTime: 6, priority: 1, insertionOrder: 1 },
+        { pid: 'P3', arrivalTime: 2, burstTime: 1, priority: 1, insertionOrder: 2 },
+      ];
+
+      const result = simulateSchedule(processes, 'SJF-P', 2, { cores: 2 });
+
+      // At t=2 P2 has 4 units left on core 0 and P1 has 6 on core 1, so P1 gives way
+      expect(result.ganttChart.filter((s) => s.core === 0)).toEqual([
+        { pid: 'P2', start: 0, end: 6, core: 0 },
+        { pid: null, start: 6, end: 9, core: 0 },
+      ]);
+      expect(result.ganttChart.filter((s) => s.core === 1)).toEqual([
+        { pid: 'P1', start: 0, end: 2, core: 1 },
+        { pid: 'P3', start: 2, end: 3, core: 1 },
+        { pid: 'P1', start: 3, end: 9, core: 1 },
+      ]);
+    });
+  });
+
+  describe('Fairness Metrics', () => {
+    // Convoy: one long job ahead of two short ones
+    const convoy: Process[] = [
+      { pid: 'P1', arrivalTime: 0, burstTime: 10, priority: 1, insertionOrder: 0 },
+      { pid: 'P2', arrivalTime: 0, burstTime: 1, priority: 1, insertionOrder: 1 },
+      { pid: 'P3', arrivalTime: 0, burstTime: 1, priority: 1, insertionOrder: 2 },
+    ];
+
+    it('should report slowdown and Jain fairness index', () => {
+      const result = simulateSchedule(convoy, 'FCFS');
+
+      expect(result.processMetrics.map((m) => m.slowdown)).toEqual([1, 11, 12]);
+      // (1 + 11 + 12)^2 / (3 * (1 + 121 + 144))
+      expect(result.fairnessIndex).toBeCloseTo(576 / 798);
+      expect(simulateSchedule(convoy, 'SJF').fairnessIndex).toBeGreaterThan(
+        result.fairnessIndex
+      );
+    });
+
+    it('should give a fairness index of 1 when every slowdown is equal', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 3, burstTime: 3, priority: 1, insertionOrder: 1 },
+      ];
+
+      expect(simulateSchedule(processes, 'FCFS').fairnessIndex).toBe(1);
+    });
+
+    it('should report maximum and 95th percentile waiting time', () => {
+      const processes: Process[] = Array.from({ length: 20 }, (_, i) => ({
+        pid: `P${String(i + 1).padStart(2, '0')}`,
+        arrivalTime: 0,
+        burstTime: 1,
+        priority: 1,
+        insertionOrder: i,
+      }));
+
+      const result = simulateSchedule(processes, 'FCFS');
+
+      // Waits are 0..19; the nearest-rank 95th percentile is the 19th value
+      expect(result.maxWaitingTime).toBe(19);
+      expect(result.p95WaitingTime).toBe(18);
+    });
+
+    it('should flag processes that wait longer than the threshold', () => {
+      const result = simulateSchedule(convoy, 'FCFS', 2, { starvationThreshold: 10 });
+
+      expect(result.processMetrics.map((m) => m.starved)).toEqual([false, false, true]);
+      expect(
+        simulateSchedule(convoy, 'FCFS').processMetrics.some((m) => m.starved)
+      ).toBe(false);
+    });
+  });
+
+  describe('Trace Events', () => {
+    const summary = (events: { time: number; type: string; pid: string; readyQueue: string[] }[]) =>
+      events.map((e) => `${e.time} ${e.type} ${e.pid} [${e.readyQueue.join(' ')}]`);
+
+    it('should log arrivals, dispatches, quantum expiries and completions', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 1, burstTime: 2, priority: 1, insertionOrder: 1 },
+      ];
+
+      const result = simulateSchedule(processes, 'RoundRobin', 2);
+
+      expect(summary(result.events)).toEqual([
+        '0 arrival P1 [P1]',
+        '0 dispatch P1 []',
+        '1 arrival P2 [P2]',
+        '2 quantum-expire P1 [P2]',
+        '2 dispatch P2 [P1]',
+        '4 complete P2 [P1]',
+        '4 dispatch P1 []',
+        '5 complete P1 []',
+      ]);
+    });
+
+    it('should log preemptions with the ready queue in policy order', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 6, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 1, burstTime: 4, priority: 1, insertionOrder: 1 },
+        { pid: 'P3', arrivalTime: 2, burstTime: 1, priority: 1, insertionOrder: 2 },
+      ];
+
+      const result = simulateSchedule(processes, 'SJF-P');
+
+      expect(summary(result.events).slice(2, 6)).toEqual([
+        '1 arrival P2 [P2]',
+        '1 preempt P1 [P2 P1]',
+        '1 dispatch P2 [P1]',
+        '2 arrival P3 [P3 P1]',
+      ]);
+      expect(result.events[3].detail).toBe('by P2');
+    });
+
+    it('should insert arrivals into a queue kept in policy order', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 5, priority: 1, insertionOrder: 0 },
+        { pid: 'P2', arrivalTime: 1, burstTime: 1, priority: 3, insertionOrder: 1 },
+        { pid: 'P3', arrivalTime: 2, burstTime: 1, priority: 1, insertionOrder: 2 },
+        { pid: 'P4', arrivalTime: 3, burstTime: 1, priority: 2, insertionOrder: 3 },
+        { pid: 'P5', arrivalTime: 4, burstTime: 1, priority: 2, insertionOrder: 4 },
+      ];
+
+      const result = simulateSchedule(processes, 'Priority');
+
+      expect(summary(result.events).slice(2, 6)).toEqual([
+        '1 arrival P2 [P2]',
+        '2 arrival P3 [P3 P2]',
+        '3 arrival P4 [P3 P4 P2]',
+        '4 arrival P5 [P3 P4 P5 P2]',
+      ]);
+      expect(result.ganttChart.map((s) => s.pid)).toEqual(['P1', 'P3', 'P4', 'P5', 'P2']);
+    });
+
+    it('should log I/O and tag events with their core on multi-core runs', () => {
+      const processes: Process[] = [
+        { pid: 'P1', arrivalTime: 0, burstTime: 3, priority: 1, insertionOrder: 0, bursts: [1, 2, 2] },
+        { pid: 'P2', arrivalTime: 0, burstTime: 2, priority: 1, insertionOrder: 1 },
+      ];
+
+      const result = simulateSchedule(processes, 'FCFS', 2, { cores: 2 });
+
+      expect(result.events.find((e) => e.type === 'io-block')).toMatchObject({
+        time: 1,
+        pid: 'P1',
+        core: 0,
+        detail: 'I/O until 3',
+      });
+      expect(result.events.find((e) => e.type === 'io-return')).toMatchObject({
+        time: 3,
+        pid: 'P1',
+        readyQueue: ['P1'],
+      });
+      expect(result.events.filter((e) => e.type === 'complete').map((e) => e.pid)).toEqual([
+        'P2',
+        'P1',
+      ]);
+    });
+  });
+
+  describe('readyQueuesAt', () => {
+    const processes: Process[] = [
+      { pid: 'P1', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 0 },
+      { pid: 'P2', arrivalTime: 1, burstTime: 3, priority: 1, insertionOrder: 1 },
+      { pid: 'P3', arrivalTime: 2, burstTime: 1, priority: 1, insertionOrder: 2 },
+    ];
+
+    it('should rebuild the shared ready queue at any time', () => {
+      const { events } = simulateSchedule(processes, 'SJF');
+
+      expect(readyQueuesAt(events, 0)).toEqual([[]]);
+      expect(readyQueuesAt(events, 2.5)).toEqual([[{ pid: 'P3' }, { pid: 'P2' }]]);
+      expect(readyQueuesAt(events, 4)).toEqual([[{ pid: 'P2' }]]);
+      expect(readyQueuesAt(events, 8)).toEqual([[]]);
+    });
+
+    it('should keep one queue per core with per-core queues', () => {
+      const { events } = simulateSchedule(processes, 'FCFS', 2, {
+        cores: 2,
+        queueMode: 'per-core',
+      });
+
+      expect(readyQueuesAt(events, 2)).toEqual([[{ pid: 'P3' }], []]);
+      expect(readyQueuesAt(events, 4)).toEqual([[], []]);
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should return empty results for empty process list', () => {
       const result = simulateSchedule([], 'FCFS');
@@ -334,6 +1311,62 @@ describe('simulateSchedule', () => {
   });
 });
 
+describe('algorithm registry', () => {
+  it('should list every algorithm once, in menu order', () => {
+    expect(ALL_ALGORITHMS).toEqual(ALGORITHMS.map((a) => a.id));
+    expect(new Set(ALL_ALGORITHMS).size).toBe(ALL_ALGORITHMS.length);
+  });
+
+  it('should run every registered algorithm to completion', () => {
+    const processes = getExampleProcesses();
+    for (const algorithm of ALL_ALGORITHMS) {
+      const result = simulateSchedule(processes, algorithm);
+      expect(result.processMetrics).toHaveLength(processes.length);
+    }
+  });
+
+  it('should reject unknown algorithms', () => {
+    expect(() => getAlgorithm('Guaranteed' as Algorithm)).toThrow('Unknown algorithm: Guaranteed');
+  });
+
+  it('should fill in defaults and clamp parameters to their range', () => {
+    const roundRobin = getAlgorithm('RoundRobin');
+
+    expect(resolveParams(roundRobin, {})).toEqual({ quantum: 2 });
+    expect(resolveParams(roundRobin, { quantum: 0, other: 5 })).toEqual({ quantum: 1 });
+    expect(resolveParams(getAlgorithm('FCFS'), { quantum: 4 })).toEqual({});
+  });
+});
+
+describe('compareAlgorithms', () => {
+  const processes: Process[] = [
+    { pid: 'P1', arrivalTime: 0, burstTime: 6, priority: 3, insertionOrder: 0 },
+    { pid: 'P2', arrivalTime: 1, burstTime: 2, priority: 1, insertionOrder: 1 },
+    { pid: 'P3', arrivalTime: 2, burstTime: 4, priority: 2, insertionOrder: 2 },
+  ];
+
+  it('should run every algorithm by default', () => {
+    const comparison = compareAlgorithms(processes);
+
+    expect(comparison.map((c) => c.algorithm)).toEqual(ALL_ALGORITHMS);
+    comparison.forEach(({ algorithm, result }) => {
+      expect(result).toEqual(simulateSchedule(processes, algorithm));
+    });
+  });
+
+  it('should run only the chosen algorithms with shared settings', () => {
+    const comparison = compareAlgorithms(processes, ['RoundRobin', 'FCFS'], 3, {
+      contextSwitchCost: 1,
+    });
+
+    expect(comparison.map((c) => c.algorithm)).toEqual(['RoundRobin', 'FCFS']);
+    expect(comparison[0].result).toEqual(
+      simulateSchedule(processes, 'RoundRobin', 3, { contextSwitchCost: 1 })
+    );
+    expect(comparison[1].result.switchOverhead).toBe(2);
+  });
+});
+
 describe('validateProcess', () => {
   it('should return valid for correct process', () => {
     const result = validateProcess({
@@ -394,6 +1427,76 @@ describe('validateProcess', () => {
     expect(result.valid).toBe(false);
     expect(result.errors).toContain('Priority must be >= 0');
   });
+
+  it('should reject tickets that are not a whole number >= 1', () => {
+    const process = { pid: 'P1', arrivalTime: 0, burstTime: 5, priority: 1 };
+
+    expect(validateProcess({ ...process, tickets: 50 }).valid).toBe(true);
+    expect(validateProcess({ ...process, tickets: 0 }).errors).toContain(
+      'Tickets must be a whole number >= 1'
+    );
+    expect(validateProcess({ ...process, tickets: 2.5 }).valid).toBe(false);
+  });
+
+  it('should reject invalid periods and deadlines', () => {
+    const process = { pid: 'T1', arrivalTime: 0, burstTime: 2, priority: 1 };
+
+    expect(validateProcess({ ...process, period: 5, deadline: 4 }).valid).toBe(true);
+    expect(validateProcess({ ...process, period: 0 }).errors).toContain(
+      'Period must be a whole number >= 1'
+    );
+    expect(validateProcess({ ...process, deadline: 0 }).errors).toContain('Deadline must be > 0');
+    expect(validateProcess({ ...process, period: 5, bursts: [1, 2, 1] }).errors).toContain(
+      'A periodic task cannot have I/O bursts'
+    );
+  });
+});
+
+describe('burst sequences', () => {
+  it('should accept an alternating CPU/IO sequence', () => {
+    const result = validateProcess({
+      pid: 'P1',
+      arrivalTime: 0,
+      burstTime: 6,
+      priority: 1,
+      bursts: [4, 3, 2],
+    });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject a sequence that ends with I/O', () => {
+    const result = validateProcess({
+      pid: 'P1',
+      arrivalTime: 0,
+      burstTime: 4,
+      priority: 1,
+      bursts: [4, 3],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Burst sequence must start and end with a CPU burst');
+  });
+
+  it('should reject zero-length bursts', () => {
+    const result = validateProcess({
+      pid: 'P1',
+      arrivalTime: 0,
+      burstTime: 6,
+      priority: 1,
+      bursts: [4, 0, 2],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Every CPU and I/O burst must be > 0');
+  });
+
+  it('should parse and format sequences', () => {
+    expect(parseNumberList('4 3 2')).toEqual({ values: [4, 3, 2], invalid: [] });
+    expect(parseNumberList('CPU 4, IO 3, CPU 2')).toEqual({ values: [4, 3, 2], invalid: [] });
+    expect(parseNumberList('4 -3 x 2.5')).toEqual({ values: [4, 2.5], invalid: ['-3', 'x'] });
+    expect(formatBurstSequence([4, 3, 2])).toBe('CPU 4, IO 3, CPU 2');
+  });
 });
 
 describe('getExampleProcesses', () => {
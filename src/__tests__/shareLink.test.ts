@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeScenario,
+  decodeScenario,
+  scenarioHash,
+  readScenarioHash,
+} from '../lib/shareLink';
+import { getExampleProcesses } from '../lib/scheduler';
+import type { Process, SimulationOptions } from '../types';
+
+describe('shareable scenario links', () => {
+  it('should round-trip processes, algorithm and quantum', async () => {
+    const processes: Process[] = [
+      ...getExampleProcesses(),
+      { pid: 'IO', arrivalTime: 3, burstTime: 6, priority: 0, insertionOrder: 5, bursts: [4, 3, 2] },
+    ];
+
+    const encoded = await encodeScenario(processes, 'RoundRobin', 4, {});
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(await decodeScenario(encoded)).toEqual({
+      processes,
+      algorithm: 'RoundRobin',
+      quantum: 4,
+      options: {},
+      errors: [],
+    });
+  });
+
+  it('should round-trip the simulation options', async () => {
+    const options: SimulationOptions = {
+      mlfq: {
+        levels: [
+          { quantum: 3, policy: 'RR' },
+          { quantum: 1, policy: 'FCFS' },
+        ],
+        boostInterval: 0,
+      },
+      aging: { step: 1, interval: 5 },
+      contextSwitchCost: 0.5,
+      cores: 2,
+      queueMode: 'per-core',
+      starvationThreshold: 15,
+      params: { seed: 7, alpha: 0.25, tau0: 6, targetLatency: 12, minGranularity: 2 },
+    };
+
+    const encoded = await encodeScenario(getExampleProcesses(), 'CFS', 2, options);
+
+    expect((await decodeScenario(encoded)).options).toEqual(options);
+  });
+
+  it('should drop malformed options and keep links without options working', async () => {
+    const encode = async (document: object) => {
+      const bytes = new TextEncoder().encode(JSON.stringify(document));
+      const output = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+      const compressed = new Uint8Array(await new Response(output).arrayBuffer());
+      return btoa(String.fromCharCode(...compressed)).replace(/\+/g, '-').replace(/\//g, '_');
+    };
+    const file = {
+      version: 1,
+      algorithm: 'FCFS',
+      quantum: 2,
+      processes: [{ pid: 'P1', arrivalTime: 0, burstTime: 3, priority: 1 }],
+    };
+
+    const malformed = await decodeScenario(
+      await encode({ ...file, options: { cores: 0, queueMode: 'ring', contextSwitchCost: 1 } })
+    );
+    expect(malformed.errors).toEqual([]);
+    expect(malformed.options).toEqual({ contextSwitchCost: 1 });
+
+    const old = await decodeScenario(await encode(file));
+    expect(old.errors).toEqual([]);
+    expect(old).not.toHaveProperty('options');
+  });
+
+  it('should compress large scenarios', async () => {
+    const processes: Process[] = Array.from({ length: 50 }, (_, i) => ({
+      pid: `P${i + 1}`,
+      arrivalTime: i,
+      burstTime: (i % 7) + 1,
+      priority: i % 5,
+      insertionOrder: i,
+    }));
+
+    const encoded = await encodeScenario(processes, 'FCFS', 2, {});
+    const plain = JSON.stringify(processes);
+
+    expect(encoded.length).toBeLessThan(plain.length / 2);
+  });
+
+  it('should report damaged links', async () => {
+    const encoded = await encodeScenario(getExampleProcesses(), 'SJF', 2, {});
+
+    expect((await decodeScenario(encoded.slice(0, 10))).errors).toEqual([
+      'The link is damaged or incomplete',
+    ]);
+    expect((await decodeScenario('not base64!')).errors).toEqual([
+      'The link is damaged or incomplete',
+    ]);
+  });
+
+  it('should read the scenario from a URL hash', () => {
+    expect(readScenarioHash(scenarioHash('abc_-1'))).toBe('abc_-1');
+    expect(readScenarioHash('')).toBeNull();
+    expect(readScenarioHash('#other=1')).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { shareTracking } from '../lib/shares';
+import { simulateSchedule } from '../lib/scheduler';
+import type { Process } from '../types';
+
+const processes: Process[] = [
+  { pid: 'A', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 0, tickets: 200 },
+  { pid: 'B', arrivalTime: 0, burstTime: 2, priority: 1, insertionOrder: 1, tickets: 100 },
+];
+
+describe('shareTracking', () => {
+  it('should split the CPU among runnable processes by tickets', () => {
+    // Stride runs A B A A B A: exactly 2:1 while both are runnable
+    const result = simulateSchedule(processes, 'Stride', 1);
+    const { processes: shares } = shareTracking(processes, result);
+
+    expect(shares.map((s) => s.pid)).toEqual(['A', 'B']);
+    expect(shares[0].ticketShare).toBeCloseTo(2 / 3);
+    // Both runnable for 5 units (A gets 10/3, B 5/3), then A alone for 1
+    expect(shares[0].entitled).toBeCloseTo(5 * (2 / 3) + 1);
+    expect(shares[0].received).toBe(4);
+    expect(shares[1].entitled).toBeCloseTo(5 / 3);
+    expect(shares[1].error).toBeCloseTo(2 - 5 / 3);
+  });
+
+  it('should track a FIFO policy drifting away from the ticket shares', () => {
+    const result = simulateSchedule(processes, 'FCFS');
+    const { samples } = shareTracking(processes, result);
+
+    // A runs first: after 4 units it is ahead by 4 - 4 * 2/3
+    const atFour = samples.find((s) => s.time === 4)!;
+    expect(atFour.lag.A).toBeCloseTo(4 / 3);
+    expect(atFour.lag.B).toBeCloseTo(-4 / 3);
+    expect(samples[0]).toEqual({ time: 0, lag: { A: 0, B: 0 } });
+  });
+
+  it('should not entitle blocked processes to CPU time', () => {
+    const withIO: Process[] = [
+      { pid: 'A', arrivalTime: 0, burstTime: 2, priority: 1, insertionOrder: 0, bursts: [1, 4, 1] },
+      { pid: 'B', arrivalTime: 0, burstTime: 5, priority: 1, insertionOrder: 1 },
+    ];
+    const result = simulateSchedule(withIO, 'Stride', 1);
+    const [a] = shareTracking(withIO, result).processes;
+
+    expect(a.received).toBe(2);
+    expect(a.entitled).toBeLessThan(3);
+  });
+
+  it('should keep at most the requested number of samples', () => {
+    const long: Process[] = [
+      { pid: 'A', arrivalTime: 0, burstTime: 500, priority: 1, insertionOrder: 0 },
+      { pid: 'B', arrivalTime: 0, burstTime: 500, priority: 1, insertionOrder: 1 },
+    ];
+    const result = simulateSchedule(long, 'Lottery', 1);
+    const { samples } = shareTracking(long, result, 50);
+
+    expect(samples.length).toBeLessThanOrEqual(52);
+    expect(samples[samples.length - 1].time).toBe(result.totalTime);
+  });
+});
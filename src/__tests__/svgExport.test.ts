@@ -0,0 +1,43 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { serializeSvg, svgSize } from '../lib/svgExport';
+
+function renderSvg(markup: string): SVGSVGElement {
+  document.body.innerHTML = `
+    <style>.label { fill: rgb(107, 114, 128); font-size: 12px; }</style>
+    <svg width="300" height="80" class="block">${markup}</svg>
+  `;
+  return document.querySelector('svg')!;
+}
+
+describe('serializeSvg', () => {
+  it('should produce a standalone document with its size and namespace', () => {
+    const svg = renderSvg('<rect x="0" y="0" width="10" height="10" fill="#3b82f6" />');
+    const text = serializeSvg(svg);
+
+    expect(text.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<svg')).toBe(true);
+    expect(text).toContain('xmlns="http://www.w3.org/2000/svg"');
+    expect(text).toContain('viewBox="0 0 300 80"');
+    expect(text).toContain('fill="#3b82f6"');
+    expect(svgSize(svg)).toEqual({ width: 300, height: 80 });
+  });
+
+  it('should inline styles that come from CSS classes', () => {
+    const svg = renderSvg('<text class="label" x="5" y="20">P1</text>');
+    const text = serializeSvg(svg);
+
+    expect(text).not.toContain('class=');
+    expect(text).toMatch(/<text[^>]*style="[^"]*fill: rgb\(107, 114, 128\)/);
+    expect(text).toMatch(/<text[^>]*style="[^"]*font-size: 12px/);
+    expect(text).toContain('>P1</text>');
+  });
+
+  it('should paint the background behind the drawing', () => {
+    const svg = renderSvg('<rect width="10" height="10" />');
+    const text = serializeSvg(svg, 'rgb(255, 255, 255)');
+
+    expect(text).toMatch(/<svg[^>]*><rect width="100%" height="100%" fill="rgb\(255, 255, 255\)"/);
+    // The page itself is left untouched
+    expect(svg.querySelectorAll('rect')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { processLanes } from '../lib/swimlanes';
+import { simulateSchedule, getExampleProcesses } from '../lib/scheduler';
+import type { Process } from '../types';
+
+describe('processLanes', () => {
+  it('should fill the time between runs with waiting spans', () => {
+    const processes: Process[] = [
+      { pid: 'P1', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 0 },
+      { pid: 'P2', arrivalTime: 1, burstTime: 2, priority: 1, insertionOrder: 1 },
+    ];
+    const result = simulateSchedule(processes, 'RoundRobin', 2);
+    const [p1, p2] = processLanes(result.processMetrics, result.ganttChart);
+
+    expect(p1).toMatchObject({ pid: 'P1', arrival: 0, completion: 6, waitingTime: 2 });
+    expect(p1.spans).toEqual([
+      { state: 'running', start: 0, end: 2, core: undefined },
+      { state: 'waiting', start: 2, end: 4 },
+      { state: 'running', start: 4, end: 6, core: undefined },
+    ]);
+    expect(p2.spans).toEqual([
+      { state: 'waiting', start: 1, end: 2 },
+      { state: 'running', start: 2, end: 4, core: undefined },
+    ]);
+  });
+
+  it('should show I/O as blocked and merge back-to-back runs', () => {
+    const processes: Process[] = [
+      { pid: 'P1', arrivalTime: 0, burstTime: 4, priority: 1, insertionOrder: 0, bursts: [2, 3, 2] },
+    ];
+    const result = simulateSchedule(processes, 'RoundRobin', 1);
+    const [lane] = processLanes(result.processMetrics, result.ganttChart, result.ioChart);
+
+    expect(lane.spans.map((s) => [s.state, s.start, s.end])).toEqual([
+      ['running', 0, 2],
+      ['blocked', 2, 5],
+      ['running', 5, 7],
+    ]);
+    expect(lane.waitingTime).toBe(0);
+  });
+
+  it('should leave a periodic task idle between its jobs', () => {
+    const processes: Process[] = [
+      { pid: 'T1', arrivalTime: 0, burstTime: 1, priority: 1, insertionOrder: 0, period: 3 },
+      { pid: 'T2', arrivalTime: 0, burstTime: 2, priority: 1, insertionOrder: 1, period: 6 },
+    ];
+    const result = simulateSchedule(processes, 'EDF');
+    const [t1, t2] = processLanes(result.processMetrics, result.ganttChart, result.ioChart);
+
+    expect(t1.spans.map((s) => [s.state, s.start, s.end])).toEqual([
+      ['running', 0, 1],
+      ['idle', 1, 3],
+      ['running', 3, 4],
+    ]);
+    expect(t2.waitingTime).toBe(result.processMetrics[1].waitingTime);
+  });
+
+  it('should add up to the waiting time of every process', () => {
+    const processes = getExampleProcesses();
+    for (const algorithm of ['FCFS', 'SJF-P', 'RoundRobin'] as const) {
+      const result = simulateSchedule(processes, algorithm, 2, { contextSwitchCost: 0.5 });
+      const lanes = processLanes(result.processMetrics, result.ganttChart, result.ioChart);
+      lanes.forEach((lane, i) => {
+        expect(lane.waitingTime).toBeCloseTo(result.processMetrics[i].waitingTime);
+      });
+    }
+  });
+});
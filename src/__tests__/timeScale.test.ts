@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { niceStep, timeMarkers, clampZoom } from '../lib/timeScale';
+
+describe('niceStep', () => {
+  it('should round up to 1, 2 or 5 times a power of ten', () => {
+    expect(niceStep(0.3)).toBe(1);
+    expect(niceStep(1.5)).toBe(2);
+    expect(niceStep(3)).toBe(5);
+    expect(niceStep(7)).toBe(10);
+    expect(niceStep(10)).toBe(10);
+    expect(niceStep(120)).toBe(200);
+    expect(niceStep(4500)).toBe(5000);
+  });
+});
+
+describe('timeMarkers', () => {
+  it('should label every unit when zoomed in', () => {
+    expect(timeMarkers(5, 60)).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it('should thin out markers as the zoom level drops', () => {
+    // 50px apart at 0.1px per unit: one marker every 500 units
+    expect(timeMarkers(2000, 0.1)).toEqual([0, 500, 1000, 1500, 2000]);
+    expect(timeMarkers(10_000, 0.08)).toHaveLength(11);
+  });
+
+  it('should always end at the total time without crowding the last marker', () => {
+    expect(timeMarkers(23, 10)).toEqual([0, 5, 10, 15, 23]);
+    expect(timeMarkers(28, 10)).toEqual([0, 5, 10, 15, 20, 28]);
+    expect(timeMarkers(3, 100)).toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe('clampZoom', () => {
+  it('should keep the zoom level in range', () => {
+    expect(clampZoom(500, 1, 200)).toBe(200);
+    expect(clampZoom(0.01, 0.5, 200)).toBe(0.5);
+    expect(clampZoom(30, 0.5, 200)).toBe(30);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { generateWorkload, DEFAULT_WORKLOAD_CONFIG } from '../lib/workload';
+import { createRandom } from '../lib/random';
+import { validateProcess } from '../lib/scheduler';
+import type { WorkloadConfig } from '../types';
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+describe('createRandom', () => {
+  it('should repeat the same sequence for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const c = createRandom(43);
+    const first = [a(), a(), a()];
+
+    expect([b(), b(), b()]).toEqual(first);
+    expect([c(), c(), c()]).not.toEqual(first);
+    first.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe('generateWorkload', () => {
+  it('should generate valid, reproducible processes', () => {
+    const config: WorkloadConfig = { ...DEFAULT_WORKLOAD_CONFIG, count: 50, seed: 7 };
+    const processes = generateWorkload(config);
+
+    expect(processes).toHaveLength(50);
+    expect(processes[0].pid).toBe('P01');
+    expect(processes[0].arrivalTime).toBe(0);
+    processes.forEach((p, i) => {
+      expect(validateProcess(p).valid).toBe(true);
+      expect(p.insertionOrder).toBe(i);
+      if (i > 0) expect(p.arrivalTime).toBeGreaterThanOrEqual(processes[i - 1].arrivalTime);
+    });
+    expect(generateWorkload(config)).toEqual(processes);
+    expect(generateWorkload({ ...config, seed: 8 })).not.toEqual(processes);
+  });
+
+  it('should follow the arrival rate and exponential burst mean', () => {
+    const processes = generateWorkload({
+      ...DEFAULT_WORKLOAD_CONFIG,
+      count: 2000,
+      arrivalRate: 0.25,
+      burst: { kind: 'exponential', mean: 8 },
+    });
+
+    // Mean gap between arrivals is 1 / rate = 4
+    expect(processes[processes.length - 1].arrivalTime / 1999).toBeCloseTo(4, 0);
+    expect(mean(processes.map((p) => p.burstTime))).toBeGreaterThan(7.2);
+    expect(mean(processes.map((p) => p.burstTime))).toBeLessThan(8.8);
+  });
+
+  it('should keep uniform bursts and priorities within their ranges', () => {
+    const processes = generateWorkload({
+      ...DEFAULT_WORKLOAD_CONFIG,
+      count: 500,
+      burst: { kind: 'uniform', min: 3, max: 6 },
+      priorityMin: 2,
+      priorityMax: 4,
+    });
+    const bursts = new Set(processes.map((p) => p.burstTime));
+    const priorities = new Set(processes.map((p) => p.priority));
+
+    expect([...bursts].sort()).toEqual([3, 4, 5, 6]);
+    expect([...priorities].sort()).toEqual([2, 3, 4]);
+  });
+
+  it('should split bimodal bursts into short and long jobs', () => {
+    const processes = generateWorkload({
+      ...DEFAULT_WORKLOAD_CONFIG,
+      count: 1000,
+      burst: { kind: 'bimodal', shortMean: 2, longMean: 20, longFraction: 0.2 },
+    });
+    const long = processes.filter((p) => p.burstTime >= 15);
+    const short = processes.filter((p) => p.burstTime <= 3);
+
+    expect(long.length + short.length).toBe(1000);
+    expect(long.length / 1000).toBeGreaterThan(0.15);
+    expect(long.length / 1000).toBeLessThan(0.25);
+  });
+});
@@ -0,0 +1,10 @@
+import { readFileSync } from "node:fs"
+import { runCli } from "./lib/cli"
+
+// Node entry point; build and run with `npm run cli -- <file> [options]`
+const { stdout, stderr, exitCode } = runCli(process.argv.slice(2), (path) =>
+  readFileSync(path === "-" ? 0 : path, "utf8")
+)
+process.stdout.write(stdout)
+process.stderr.write(stderr)
+process.exitCode = exitCode
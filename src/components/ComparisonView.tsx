@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { BarChart3 } from 'lucide-react';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from 'recharts';
+import type {
+  Process,
+  Algorithm,
+  AlgorithmComparison,
+  GanttSegment,
+  SimulationOptions,
+} from '../types';
+import { compareAlgorithms, getAlgorithm, ALL_ALGORITHMS } from '../lib/scheduler';
+import { getProcessHexColor } from '../lib/colors';
+
+interface ComparisonViewProps {
+  processes: Process[];
+  allPids: string[];
+  quantum: number;
+  options: SimulationOptions;
+  canRun: boolean;
+}
+
+const METRIC_COLORS = {
+  waiting: '#3b82f6', // blue-500
+  turnaround: '#10b981', // emerald-500
+  response: '#f59e0b', // amber-500
+};
+
+const IDLE_COLOR = '#d1d5db'; // gray-300
+const SWITCH_COLOR = '#475569'; // slate-600
+
+export function ComparisonView({
+  processes,
+  allPids,
+  quantum,
+  options,
+  canRun,
+}: ComparisonViewProps) {
+  const [selected, setSelected] = useState<Algorithm[]>(ALL_ALGORITHMS);
+  const [comparison, setComparison] = useState<AlgorithmComparison[] | null>(null);
+  // Workload the current comparison was run on, to flag stale results
+  const [comparedProcesses, setComparedProcesses] = useState<Process[] | null>(null);
+
+  const toggleAlgorithm = (algorithm: Algorithm) => {
+    setSelected((prev) =>
+      prev.includes(algorithm)
+        ? prev.filter((a) => a !== algorithm)
+        : ALL_ALGORITHMS.filter((a) => a === algorithm || prev.includes(a))
+    );
+  };
+
+  const handleCompare = () => {
+    if (!canRun || selected.length === 0) return;
+    setComparison(compareAlgorithms(processes, selected, quantum, options));
+    setComparedProcesses(processes);
+  };
+
+  const isStale = comparison !== null && comparedProcesses !== processes;
+
+  // Lowest average wins for every timing metric
+  const best = (pick: (c: AlgorithmComparison) => number) =>
+    comparison ? Math.min(...comparison.map(pick)) : 0;
+  const bestWaiting = best((c) => c.result.averageWaitingTime);
+  const bestTurnaround = best((c) => c.result.averageTurnaroundTime);
+  const bestResponse = best((c) => c.result.averageResponseTime);
+
+  const chartData = (comparison ?? []).map(({ algorithm, result }) => ({
+    name: getAlgorithm(algorithm).shortLabel,
+    waiting: Number(result.averageWaitingTime.toFixed(2)),
+    turnaround: Number(result.averageTurnaroundTime.toFixed(2)),
+    response: Number(result.averageResponseTime.toFixed(2)),
+  }));
+
+  const longestRun = Math.max(0, ...(comparison ?? []).map((c) => c.result.totalTime));
+
+  const highlight = (value: number, bestValue: number) =>
+    value === bestValue ? 'font-semibold text-emerald-600 dark:text-emerald-400' : '';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="card p-6"
+    >
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Compare Algorithms
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Run the current processes through several algorithms with the same settings
+          </p>
+        </div>
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={handleCompare}
+          disabled={!canRun || selected.length === 0}
+          className="btn-primary flex items-center justify-center gap-2"
+        >
+          <BarChart3 className="w-4 h-4" />
+          Compare
+        </motion.button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-4">
+        {ALL_ALGORITHMS.map((algorithm) => (
+          <label
+            key={algorithm}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 cursor-pointer"
+          >
+            <input
+              type="checkbox"
+              checked={selected.includes(algorithm)}
+              onChange={() => toggleAlgorithm(algorithm)}
+              className="rounded"
+            />
+            {getAlgorithm(algorithm).shortLabel}
+          </label>
+        ))}
+      </div>
+
+      {isStale && (
+        <p className="mt-3 text-sm text-amber-600 dark:text-amber-400">
+          The process list changed since this comparison was run. Click "Compare" to refresh.
+        </p>
+      )}
+
+      {comparison && (
+        <div className="mt-6 space-y-6">
+          {/* Averages table */}
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr>
+                  <th className="table-header">Algorithm</th>
+                  <th className="table-header text-center">Avg Waiting</th>
+                  <th className="table-header text-center">Avg Turnaround</th>
+                  <th className="table-header text-center">Avg Response</th>
+                  <th className="table-header text-center">P95 Waiting</th>
+                  <th className="table-header text-center">Fairness</th>
+                  <th className="table-header text-center">CPU Utilization</th>
+                  <th className="table-header text-center">Context Switches</th>
+                  <th className="table-header text-center">Total Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.map(({ algorithm, result }) => (
+                  <tr key={algorithm} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                    <td className="table-cell font-medium">{getAlgorithm(algorithm).shortLabel}</td>
+                    <td
+                      className={`table-cell text-center font-mono ${highlight(result.averageWaitingTime, bestWaiting)}`}
+                    >
+                      {result.averageWaitingTime.toFixed(2)}
+                    </td>
+                    <td
+                      className={`table-cell text-center font-mono ${highlight(result.averageTurnaroundTime, bestTurnaround)}`}
+                    >
+                      {result.averageTurnaroundTime.toFixed(2)}
+                    </td>
+                    <td
+                      className={`table-cell text-center font-mono ${highlight(result.averageResponseTime, bestResponse)}`}
+                    >
+                      {result.averageResponseTime.toFixed(2)}
+                    </td>
+                    <td className="table-cell text-center font-mono">
+                      {result.p95WaitingTime.toFixed(2)}
+                    </td>
+                    <td className="table-cell text-center font-mono">
+                      {result.fairnessIndex.toFixed(3)}
+                    </td>
+                    <td className="table-cell text-center font-mono">
+                      {result.cpuUtilization.toFixed(1)}%
+                    </td>
+                    <td className="table-cell text-center font-mono">{result.contextSwitches}</td>
+                    <td className="table-cell text-center font-mono">{result.totalTime}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Bar chart */}
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="name" tick={{ fontSize: 12, fill: '#6b7280' }} />
+                <YAxis tick={{ fontSize: 12, fill: '#6b7280' }} />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey="waiting" name="Avg Waiting" fill={METRIC_COLORS.waiting} />
+                <Bar dataKey="turnaround" name="Avg Turnaround" fill={METRIC_COLORS.turnaround} />
+                <Bar dataKey="response" name="Avg Response" fill={METRIC_COLORS.response} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Mini Gantt charts, all on the same time scale */}
+          <div className="space-y-3">
+            {comparison.map(({ algorithm, result }) => (
+              <MiniGantt
+                key={algorithm}
+                label={getAlgorithm(algorithm).shortLabel}
+                segments={result.ganttChart}
+                allPids={allPids}
+                scale={longestRun}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
+interface MiniGanttProps {
+  label: string;
+  segments: GanttSegment[];
+  allPids: string[];
+  scale: number;
+}
+
+function MiniGantt({ label, segments, allPids, scale }: MiniGanttProps) {
+  const coreCount = segments.reduce((max, s) => Math.max(max, (s.core ?? 0) + 1), 1);
+  const totalTime = segments.reduce((max, s) => Math.max(max, s.end), 0);
+
+  const segmentColor = (segment: GanttSegment) => {
+    if (segment.kind === 'switch') return SWITCH_COLOR;
+    if (segment.pid === null) return IDLE_COLOR;
+    return getProcessHexColor(segment.pid, allPids);
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <span className="w-20 shrink-0 text-sm font-medium text-gray-700 dark:text-gray-300">
+        {label}
+      </span>
+      <div className="flex-1 space-y-0.5">
+        {Array.from({ length: coreCount }, (_, core) => (
+          <div
+            key={core}
+            className="relative h-5 rounded bg-gray-100 dark:bg-gray-700 overflow-hidden"
+          >
+            {segments
+              .filter((s) => (s.core ?? 0) === core)
+              .map((segment, index) => (
+                <div
+                  key={index}
+                  className="absolute inset-y-0 border-r border-white/60 dark:border-gray-800/60"
+                  style={{
+                    left: `${(segment.start / scale) * 100}%`,
+                    width: `${((segment.end - segment.start) / scale) * 100}%`,
+                    backgroundColor: segmentColor(segment),
+                  }}
+                  title={`${segment.kind === 'switch' ? 'Context switch' : segment.pid ?? 'IDLE'}: ${segment.start} - ${segment.end}`}
+                />
+              ))}
+          </div>
+        ))}
+      </div>
+      <span className="w-12 shrink-0 text-right text-xs font-mono text-gray-500 dark:text-gray-400">
+        {totalTime}
+      </span>
+    </div>
+  );
+}
@@ -1,68 +1,75 @@
-import { Play, RotateCcw, ChevronDown } from 'lucide-react';
+import { useState } from 'react';
+import { Play, RotateCcw, ChevronDown, Link, Check, FileText } from 'lucide-react';
 import { motion } from 'framer-motion';
-import type { Algorithm } from '../types';
+import type {
+  Algorithm,
+  AlgorithmParam,
+  AlgorithmParams,
+  MLFQConfig,
+  AgingConfig,
+  QueueMode,
+} from '../types';
+import { ALGORITHMS, getAlgorithm } from '../lib/scheduler';
+import { MLFQEditor } from './MLFQEditor';
 
 interface ControlsProps {
   algorithm: Algorithm;
-  quantum: number;
+  params: AlgorithmParams; // values for the algorithm's parameter inputs, quantum included
+  mlfqConfig: MLFQConfig;
+  aging: AgingConfig;
+  contextSwitchCost: number;
+  cores: number;
+  queueMode: QueueMode;
+  starvationThreshold: number;
   onAlgorithmChange: (algorithm: Algorithm) => void;
-  onQuantumChange: (quantum: number) => void;
+  onParamChange: (name: string, value: number) => void;
+  onMlfqConfigChange: (config: MLFQConfig) => void;
+  onAgingChange: (aging: AgingConfig) => void;
+  onContextSwitchCostChange: (cost: number) => void;
+  onCoresChange: (cores: number) => void;
+  onQueueModeChange: (mode: QueueMode) => void;
+  onStarvationThresholdChange: (threshold: number) => void;
   onRun: () => void;
   onReset: () => void;
+  onReport: () => void;
+  onShare: () => Promise<boolean>;
   canRun: boolean;
   hasResults: boolean;
 }
 
-const ALGORITHMS: { value: Algorithm; label: string; description: string; preemptive: boolean }[] = [
-  {
-    value: 'FCFS',
-    label: 'First Come First Served (FCFS)',
-    description: 'Processes executed in arrival order',
-    preemptive: false,
-  },
-  {
-    value: 'SJF',
-    label: 'Shortest Job First (SJF)',
-    description: 'Non-preemptive, shortest burst time first',
-    preemptive: false,
-  },
-  {
-    value: 'SJF-P',
-    label: 'Shortest Remaining Time First (SRTF)',
-    description: 'Preemptive SJF, shortest remaining time first',
-    preemptive: true,
-  },
-  {
-    value: 'Priority',
-    label: 'Priority Scheduling',
-    description: 'Non-preemptive, lower priority number = higher priority',
-    preemptive: false,
-  },
-  {
-    value: 'Priority-P',
-    label: 'Priority Scheduling (Preemptive)',
-    description: 'Preemptive, preempts when higher priority arrives',
-    preemptive: true,
-  },
-  {
-    value: 'RoundRobin',
-    label: 'Round Robin (RR)',
-    description: 'Preemptive with time quantum',
-    preemptive: true,
-  },
-];
+const MAX_CORES = 16;
 
 export function Controls({
   algorithm,
-  quantum,
+  params,
+  mlfqConfig,
+  aging,
+  contextSwitchCost,
+  cores,
+  queueMode,
+  starvationThreshold,
   onAlgorithmChange,
-  onQuantumChange,
+  onParamChange,
+  onMlfqConfigChange,
+  onAgingChange,
+  onContextSwitchCostChange,
+  onCoresChange,
+  onQueueModeChange,
+  onStarvationThresholdChange,
   onRun,
   onReset,
+  onReport,
+  onShare,
   canRun,
   hasResults,
 }: ControlsProps) {
-  const selectedAlgorithm = ALGORITHMS.find((a) => a.value === algorithm);
+  const selectedAlgorithm = getAlgorithm(algorithm);
+  const [shareStatus, setShareStatus] = useState<'idle' | 'copied' | 'in-url'>('idle');
+
+  const handleShare = async () => {
+    setShareStatus((await onShare()) ? 'copied' : 'in-url');
+    setTimeout(() => setShareStatus('idle'), 2000);
+  };
 
   return (
     <motion.div
@@ -75,7 +82,7 @@ export function Controls({
         Algorithm Selection
       </h2>
 
-      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
         {/* Algorithm Dropdown */}
         <div className="sm:col-span-2">
           <label htmlFor="algorithm" className="label">
@@ -89,38 +96,46 @@ export function Controls({
               className="select pr-10"
             >
               {ALGORITHMS.map((algo) => (
-                <option key={algo.value} value={algo.value}>
+                <option key={algo.id} value={algo.id}>
                   {algo.label}
                 </option>
               ))}
             </select>
             <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
           </div>
-          {selectedAlgorithm && (
-            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-              {selectedAlgorithm.description}
-            </p>
-          )}
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {selectedAlgorithm.description}
+          </p>
         </div>
 
-        {/* Time Quantum (only for Round Robin) */}
-        <div className={algorithm !== 'RoundRobin' ? 'opacity-50' : ''}>
-          <label htmlFor="quantum" className="label">
-            Time Quantum
+        {/* Parameters declared by the selected algorithm */}
+        {selectedAlgorithm.params.map((param) => (
+          <ParamInput
+            key={param.name}
+            param={param}
+            value={params[param.name] ?? param.default}
+            onChange={(value) => onParamChange(param.name, value)}
+          />
+        ))}
+
+        {/* Context Switch Cost */}
+        <div>
+          <label htmlFor="context-switch" className="label">
+            Context Switch
           </label>
           <input
-            id="quantum"
+            id="context-switch"
             type="number"
-            min="1"
-            value={quantum}
-            onChange={(e) => onQuantumChange(Math.max(1, parseInt(e.target.value, 10) || 1))}
-            disabled={algorithm !== 'RoundRobin'}
+            min="0"
+            step="0.5"
+            value={contextSwitchCost}
+            onChange={(e) =>
+              onContextSwitchCostChange(Math.max(0, parseFloat(e.target.value) || 0))
+            }
             className="input"
           />
           <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-            {algorithm === 'RoundRobin'
-              ? 'Time slice for each process'
-              : 'Only used for Round Robin'}
+            Overhead between two processes
           </p>
         </div>
 
@@ -135,37 +150,177 @@ export function Controls({
             Run Simulation
           </button>
           {hasResults && (
-            <button
-              onClick={onReset}
-              className="btn-secondary flex items-center justify-center gap-2 px-3"
-              title="Reset results"
-            >
-              <RotateCcw className="w-4 h-4" />
-            </button>
+            <>
+              <button
+                onClick={onReport}
+                className="btn-secondary flex items-center justify-center gap-2 px-3"
+                title="Printable report"
+              >
+                <FileText className="w-4 h-4" />
+              </button>
+              <button
+                onClick={onReset}
+                className="btn-secondary flex items-center justify-center gap-2 px-3"
+                title="Reset results"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            </>
           )}
+          <button
+            onClick={handleShare}
+            disabled={!canRun}
+            className="btn-secondary flex items-center justify-center gap-2 px-3"
+            title={
+              shareStatus === 'copied'
+                ? 'Link copied'
+                : shareStatus === 'in-url'
+                  ? 'Link is in the address bar'
+                  : 'Copy a link that reproduces this run'
+            }
+          >
+            {shareStatus === 'idle' ? <Link className="w-4 h-4" /> : <Check className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+
+      {/* CPU Configuration */}
+      <div className="mt-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+        <div>
+          <label htmlFor="cores" className="label">
+            CPU Cores
+          </label>
+          <input
+            id="cores"
+            type="number"
+            min="1"
+            max={MAX_CORES}
+            value={cores}
+            onChange={(e) =>
+              onCoresChange(Math.min(MAX_CORES, Math.max(1, parseInt(e.target.value, 10) || 1)))
+            }
+            className="input"
+          />
+        </div>
+        <div className={cores === 1 ? 'opacity-50' : ''}>
+          <label htmlFor="queue-mode" className="label">
+            Ready Queue
+          </label>
+          <div className="relative">
+            <select
+              id="queue-mode"
+              value={queueMode}
+              onChange={(e) => onQueueModeChange(e.target.value as QueueMode)}
+              disabled={cores === 1}
+              className="select pr-10"
+            >
+              <option value="global">Global (shared)</option>
+              <option value="per-core">Per-core</option>
+            </select>
+            <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+          </div>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {queueMode === 'global'
+              ? 'Any idle core takes the next process'
+              : 'Processes stay on the core they were assigned'}
+          </p>
+        </div>
+        <div>
+          <label htmlFor="starvation-threshold" className="label">
+            Starvation Threshold
+          </label>
+          <input
+            id="starvation-threshold"
+            type="number"
+            min="0"
+            value={starvationThreshold}
+            onChange={(e) =>
+              onStarvationThresholdChange(Math.max(0, parseFloat(e.target.value) || 0))
+            }
+            className="input"
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Flag processes that wait longer than this
+          </p>
         </div>
       </div>
 
+      {/* MLFQ queue levels */}
+      {selectedAlgorithm.options?.includes('mlfq') && (
+        <MLFQEditor config={mlfqConfig} onChange={onMlfqConfigChange} />
+      )}
+
+      {/* Priority aging */}
+      {selectedAlgorithm.options?.includes('aging') && (
+        <div className="mt-4 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Aging</h3>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div>
+              <label htmlFor="aging-interval" className="label">
+                Aging Interval
+              </label>
+              <input
+                id="aging-interval"
+                type="number"
+                min="0"
+                value={aging.interval}
+                onChange={(e) =>
+                  onAgingChange({
+                    ...aging,
+                    interval: Math.max(0, parseInt(e.target.value, 10) || 0),
+                  })
+                }
+                className="input"
+              />
+            </div>
+            <div className={aging.interval === 0 ? 'opacity-50' : ''}>
+              <label htmlFor="aging-step" className="label">
+                Priority Step
+              </label>
+              <input
+                id="aging-step"
+                type="number"
+                min="1"
+                value={aging.step}
+                onChange={(e) =>
+                  onAgingChange({
+                    ...aging,
+                    step: Math.max(1, parseInt(e.target.value, 10) || 1),
+                  })
+                }
+                disabled={aging.interval === 0}
+                className="input"
+              />
+            </div>
+          </div>
+          <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+            Every N units in the ready queue, a process's priority number drops by the step
+            (never below 0). Hover a Gantt segment to see the priority it was dispatched with.
+            Interval 0 turns aging off.
+          </p>
+        </div>
+      )}
+
       {/* Algorithm Info Cards */}
       <div className="mt-4 grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
         {ALGORITHMS.map((algo) => (
           <button
-            key={algo.value}
-            onClick={() => onAlgorithmChange(algo.value)}
+            key={algo.id}
+            onClick={() => onAlgorithmChange(algo.id)}
             className={`p-3 rounded-lg border-2 text-left transition-all ${
-              algorithm === algo.value
+              algorithm === algo.id
                 ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
                 : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
             }`}
           >
             <div
               className={`text-sm font-medium ${
-                algorithm === algo.value
+                algorithm === algo.id
                   ? 'text-blue-600 dark:text-blue-400'
                   : 'text-gray-700 dark:text-gray-300'
               }`}
             >
-              {algo.value === 'SJF-P' ? 'SRTF' : algo.value === 'Priority-P' ? 'Priority (P)' : algo.value}
+              {algo.shortLabel}
             </div>
             <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
               {algo.preemptive ? 'Preemptive' : 'Non-preemptive'}
@@ -176,3 +331,39 @@ export function Controls({
     </motion.div>
   );
 }
+
+interface ParamInputProps {
+  param: AlgorithmParam;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+// Number input for one algorithm parameter, clamped to the parameter's range
+function ParamInput({ param, value, onChange }: ParamInputProps) {
+  const id = `param-${param.name}`;
+
+  const handleChange = (text: string) => {
+    const parsed = param.integer ? parseInt(text, 10) : parseFloat(text);
+    const number = Number.isFinite(parsed) ? parsed : param.min;
+    onChange(Math.min(param.max ?? Infinity, Math.max(param.min, number)));
+  };
+
+  return (
+    <div>
+      <label htmlFor={id} className="label">
+        {param.label}
+      </label>
+      <input
+        id={id}
+        type="number"
+        min={param.min}
+        max={param.max}
+        step={param.step ?? 1}
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        className="input"
+      />
+      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{param.description}</p>
+    </div>
+  );
+}
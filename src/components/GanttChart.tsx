@@ -1,55 +1,131 @@
-import { useState, useEffect, useMemo, useRef } from 'react';
-import { Play, Pause, SkipForward, RotateCcw } from 'lucide-react';
+import { useState, useEffect, useEffectEvent, useLayoutEffect, useMemo, useRef } from 'react';
+import {
+  Play,
+  Pause,
+  SkipForward,
+  SkipBack,
+  FastForward,
+  RotateCcw,
+  Download,
+  ZoomIn,
+  ZoomOut,
+  Maximize2,
+  ChartGantt,
+  AlertTriangle,
+} from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { GanttSegment } from '../types';
+import type {
+  AgingConfig,
+  Algorithm,
+  GanttSegment,
+  Process,
+  ProcessMetrics,
+  TraceEvent,
+} from '../types';
 import { getProcessHexColor } from '../lib/colors';
+import { serializeSvg, svgToPng, svgSize } from '../lib/svgExport';
+import { downloadBlob, downloadFile } from '../lib/download';
+import { formatNumber } from '../lib/report';
+import { timeMarkers as buildTimeMarkers, clampZoom } from '../lib/timeScale';
+import { processLanes, type LaneSpan, type ProcessLane } from '../lib/swimlanes';
+import { PLAYBACK_SPEEDS, nextStop, previousStop } from '../lib/playback';
+import { ReadyQueueView } from './ReadyQueueView';
 
 interface GanttChartProps {
   segments: GanttSegment[];
+  ioSegments?: GanttSegment[];
   allPids: string[];
   totalTime: number;
+  // Ready queue playback, shown when all three are given
+  events?: TraceEvent[];
+  processes?: Process[];
+  algorithm?: Algorithm;
+  aging?: AgingConfig; // as simulated, for effective priorities in the ready queue
+  // Per-process swimlane view, offered when given
+  metrics?: ProcessMetrics[];
+  // Playback position, or null when the chart is not mid-playback
+  onTimeChange?: (time: number | null) => void;
 }
 
+type ChartLayout = 'timeline' | 'swimlanes';
+
+// Context switch segments
+const SWITCH_COLOR = '#475569'; // slate-600
+
+// Zoom limits and steps, in pixels per time unit
+const MAX_ZOOM = 200;
+const ZOOM_STEP = 1.5;
+// Left and right margin of the chart inside the SVG
+const CHART_PADDING = 40;
+
 interface TooltipData {
   segment: GanttSegment;
+  isIO: boolean;
+  title?: string; // replaces the process name heading
   x: number;
   y: number;
 }
 
-export function GanttChart({ segments, allPids, totalTime }: GanttChartProps) {
+export function GanttChart({
+  segments,
+  ioSegments = [],
+  allPids,
+  totalTime,
+  events,
+  processes,
+  algorithm,
+  aging,
+  metrics,
+  onTimeChange,
+}: GanttChartProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [animationProgress, setAnimationProgress] = useState(0);
+  const [speed, setSpeed] = useState(1);
   const [tooltip, setTooltip] = useState<TooltipData | null>(null);
+  const [layout, setLayout] = useState<ChartLayout>('timeline');
+  // Shown on the PNG button for a moment when the image could not be rendered
+  const [pngFailed, setPngFailed] = useState(false);
   const prevSegmentsRef = useRef<GanttSegment[]>([]);
+  const cardRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
 
-  // Animation speed (ms per time unit)
+  // Zoom in pixels per time unit; null fits the whole timeline to the width
+  const [zoom, setZoom] = useState<number | null>(null);
+  // Visible part of the scrolling chart area
+  const [viewport, setViewport] = useState({ left: 0, width: 0 });
+  // Time to keep under the same screen position once a new zoom is rendered
+  const zoomAnchorRef = useRef<{ time: number; offset: number } | null>(null);
+  const panRef = useRef<{ x: number; left: number } | null>(null);
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
+  const hasSegments = segments.length > 0;
+
+  const available = (viewport.width || 800) - CHART_PADDING * 2;
+  const fitZoom = Math.min(MAX_ZOOM, available / Math.max(totalTime, 1));
+  const pxPerUnit = zoom === null ? fitZoom : clampZoom(zoom, fitZoom, MAX_ZOOM);
+  const contentWidth = totalTime * pxPerUnit + CHART_PADDING * 2;
+  const x = (time: number) => CHART_PADDING + time * pxPerUnit;
+
+  // Animation speed at 1x (ms per time unit)
   const SPEED = 200;
 
   // Reset animation when segments change (using ref comparison)
   useEffect(() => {
     if (prevSegmentsRef.current !== segments) {
       prevSegmentsRef.current = segments;
+      setZoom(null);
       setAnimationProgress(0);
       setIsPlaying(false);
     }
   }, [segments]);
 
-  // Compute current segment index from progress (derived state, no useEffect)
-  const currentSegmentIndex = useMemo(() => {
-    if (animationProgress === 0) return -1;
-    const idx = segments.findIndex(
-      (seg) => animationProgress >= seg.start && animationProgress < seg.end
-    );
-    return idx !== -1 ? idx : segments.length - 1;
-  }, [animationProgress, segments]);
-
   // Animation loop
   useEffect(() => {
     if (!isPlaying || segments.length === 0) return;
 
     const interval = setInterval(() => {
       setAnimationProgress((prev) => {
-        const newProgress = prev + 0.1;
+        const newProgress = prev + 0.1 * speed;
         if (newProgress >= totalTime) {
           setIsPlaying(false);
           return totalTime;
@@ -59,7 +135,15 @@ export function GanttChart({ segments, allPids, totalTime }: GanttChartProps) {
     }, SPEED / 10);
 
     return () => clearInterval(interval);
-  }, [isPlaying, totalTime, segments.length]);
+  }, [isPlaying, totalTime, segments.length, speed]);
+
+  // Partway through the run (playing, paused or scrubbed): draw progress up to the cursor
+  const inPlayback = isPlaying || (animationProgress > 0 && animationProgress < totalTime);
+
+  const reportTime = useEffectEvent((time: number | null) => onTimeChange?.(time));
+  useEffect(() => {
+    reportTime(inPlayback ? animationProgress : null);
+  }, [inPlayback, animationProgress]);
 
   const handlePlay = () => {
     if (animationProgress >= totalTime) {
@@ -72,14 +156,28 @@ export function GanttChart({ segments, allPids, totalTime }: GanttChartProps) {
     setIsPlaying(false);
   };
 
+  // Segments on different cores can start together, so step by start time
+  const segmentStarts = segments.map((seg) => seg.start);
+
   const handleStep = () => {
     setIsPlaying(false);
-    const nextSegment = segments[currentSegmentIndex + 1];
-    if (nextSegment) {
-      setAnimationProgress(nextSegment.start);
-    } else if (segments.length > 0) {
-      setAnimationProgress(totalTime);
-    }
+    setAnimationProgress(nextStop(segmentStarts, animationProgress) ?? totalTime);
+  };
+
+  const handleStepBack = () => {
+    setIsPlaying(false);
+    setAnimationProgress(previousStop(segmentStarts, animationProgress) ?? 0);
+  };
+
+  const handleNextEvent = () => {
+    setIsPlaying(false);
+    const eventTimes = (events ?? []).map((event) => event.time);
+    setAnimationProgress(nextStop(eventTimes, animationProgress) ?? totalTime);
+  };
+
+  const handleScrub = (time: number) => {
+    setIsPlaying(false);
+    setAnimationProgress(time);
   };
 
   const handleReset = () => {
@@ -87,33 +185,194 @@ export function GanttChart({ segments, allPids, totalTime }: GanttChartProps) {
     setAnimationProgress(0);
   };
 
-  // Generate time markers
-  const timeMarkers = useMemo(() => {
-    const markers: number[] = [];
-    const step = totalTime <= 20 ? 1 : totalTime <= 50 ? 5 : 10;
-    for (let i = 0; i <= totalTime; i += step) {
-      markers.push(i);
+  // Standalone chart on the card's background, so it reads the same in slides
+  const exportSvg = () => {
+    const background = cardRef.current ? getComputedStyle(cardRef.current).backgroundColor : '';
+    return serializeSvg(svgRef.current!, background);
+  };
+
+  const handleExportSvg = () => {
+    downloadFile('gantt-chart.svg', exportSvg(), 'image/svg+xml');
+  };
+
+  const handleExportPng = async () => {
+    try {
+      const { width, height } = svgSize(svgRef.current!);
+      downloadBlob('gantt-chart.png', await svgToPng(exportSvg(), width, height));
+    } catch {
+      setPngFailed(true);
+      setTimeout(() => setPngFailed(false), 3000);
     }
-    if (markers[markers.length - 1] !== totalTime) {
-      markers.push(totalTime);
+  };
+
+  // Zoom to `next` px per unit, keeping the time at `offset` px into the view in place
+  const zoomTo = (next: number, offset = viewport.width / 2) => {
+    const time = (viewport.left + offset - CHART_PADDING) / pxPerUnit;
+    zoomAnchorRef.current = { time, offset };
+    setZoom(clampZoom(next, fitZoom, MAX_ZOOM));
+  };
+
+  const handleFit = () => {
+    zoomAnchorRef.current = { time: 0, offset: CHART_PADDING };
+    setZoom(null);
+  };
+
+  // Track the size and scroll position of the chart area
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() =>
+      setViewport({ left: element.scrollLeft, width: element.clientWidth })
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasSegments]);
+
+  useLayoutEffect(() => {
+    const anchor = zoomAnchorRef.current;
+    if (anchor && scrollRef.current) {
+      scrollRef.current.scrollLeft = CHART_PADDING + anchor.time * pxPerUnit - anchor.offset;
+      zoomAnchorRef.current = null;
     }
-    return markers;
-  }, [totalTime]);
+  }, [pxPerUnit]);
+
+  // Ctrl/Cmd + wheel (and trackpad pinch) zooms around the pointer; two-finger pinch on touch
+  const onWheel = useEffectEvent((e: WheelEvent) => {
+    if (!e.ctrlKey && !e.metaKey) return;
+    e.preventDefault();
+    const rect = scrollRef.current!.getBoundingClientRect();
+    zoomTo(pxPerUnit * Math.exp(-e.deltaY * 0.01), e.clientX - rect.left);
+  });
 
-  const getSegmentColor = (pid: string | null): string => {
-    if (pid === null) {
+  const onTouch = useEffectEvent((e: TouchEvent) => {
+    if (e.touches.length !== 2) {
+      pinchRef.current = null;
+      return;
+    }
+    const [a, b] = [e.touches[0], e.touches[1]];
+    const distance = Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
+    if (e.type === 'touchstart' || !pinchRef.current) {
+      pinchRef.current = { distance, zoom: pxPerUnit };
+      return;
+    }
+    e.preventDefault();
+    const rect = scrollRef.current!.getBoundingClientRect();
+    const middle = (a.clientX + b.clientX) / 2 - rect.left;
+    zoomTo(pinchRef.current.zoom * (distance / pinchRef.current.distance), middle);
+  });
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const options = { passive: false };
+    element.addEventListener('wheel', onWheel, options);
+    element.addEventListener('touchstart', onTouch, options);
+    element.addEventListener('touchmove', onTouch, options);
+    return () => {
+      element.removeEventListener('wheel', onWheel);
+      element.removeEventListener('touchstart', onTouch);
+      element.removeEventListener('touchmove', onTouch);
+    };
+  }, [hasSegments]);
+
+  // Drag with the mouse to pan
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType !== 'mouse' || e.button !== 0) return;
+    panRef.current = { x: e.clientX, left: e.currentTarget.scrollLeft };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!panRef.current) return;
+    e.currentTarget.scrollLeft = panRef.current.left - (e.clientX - panRef.current.x);
+  };
+
+  const endPan = () => {
+    panRef.current = null;
+  };
+
+  // Center the view on `time` (minimap)
+  const scrollToTime = (time: number) => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollLeft = x(time) - viewport.width / 2;
+    }
+  };
+
+  // Keep the playhead in view while playing or scrubbing
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!inPlayback || !element) return;
+    const playhead = CHART_PADDING + animationProgress * pxPerUnit;
+    if (playhead < element.scrollLeft || playhead > element.scrollLeft + element.clientWidth - 40) {
+      element.scrollLeft = playhead - element.clientWidth / 4;
+    }
+  }, [inPlayback, animationProgress, pxPerUnit]);
+
+  // Time markers, thinned out as the chart is zoomed out
+  const timeMarkers = useMemo(() => buildTimeMarkers(totalTime, pxPerUnit), [totalTime, pxPerUnit]);
+
+  const getSegmentColor = (segment: GanttSegment): string => {
+    if (segment.kind === 'switch') {
+      return SWITCH_COLOR;
+    }
+    if (segment.pid === null) {
       return '#9ca3af'; // gray-400
     }
-    return getProcessHexColor(pid, allPids);
+    return getProcessHexColor(segment.pid, allPids);
+  };
+
+  const getSegmentLabel = (segment: GanttSegment): string => {
+    if (segment.kind === 'switch') return 'CS';
+    return segment.pid ?? 'IDLE';
   };
 
+  const hasSwitches = segments.some((s) => s.kind === 'switch');
+  const coreCount = segments.reduce((max, s) => Math.max(max, (s.core ?? 0) + 1), 1);
+
+  // I/O can overlap, so stack overlapping I/O segments into separate rows
+  const ioRows = useMemo(() => {
+    const rowEnds: number[] = [];
+    const rows = [...ioSegments]
+      .sort((a, b) => a.start - b.start)
+      .map((segment) => {
+        let row = rowEnds.findIndex((end) => end <= segment.start);
+        if (row === -1) {
+          row = rowEnds.length;
+          rowEnds.push(segment.end);
+        } else {
+          rowEnds[row] = segment.end;
+        }
+        return { segment, row };
+      });
+    return { rows, count: rowEnds.length };
+  }, [ioSegments]);
+
+  // Running, waiting and blocked spans of each process
+  const lanes = useMemo(
+    () => (metrics ? processLanes(metrics, segments, ioSegments) : []),
+    [metrics, segments, ioSegments]
+  );
+  const swimlanes = layout === 'swimlanes' && lanes.length > 0;
+
+  // Jobs of real-time processes that completed after their deadline
+  const misses = useMemo(
+    () =>
+      (metrics ?? []).flatMap((m) =>
+        (m.jobs ?? []).filter((job) => job.missed).map((job) => ({ pid: m.pid, ...job }))
+      ),
+    [metrics]
+  );
+
   const handleMouseEnter = (
     e: React.MouseEvent<SVGRectElement>,
-    segment: GanttSegment
+    segment: GanttSegment,
+    isIO = false,
+    title?: string
   ) => {
     const rect = e.currentTarget.getBoundingClientRect();
     setTooltip({
       segment,
+      isIO,
+      title,
       x: rect.left + rect.width / 2,
       y: rect.top,
     });
@@ -128,8 +387,23 @@ export function GanttChart({ segments, allPids, totalTime }: GanttChartProps) {
   }
 
   const chartHeight = 80;
-  const chartPadding = 40;
+  const chartPadding = CHART_PADDING;
   const segmentHeight = 50;
+  const coreGap = 8;
+  const ioRowHeight = 24;
+  // One CPU lane per core, then the I/O rows, then the time axis
+  const coreTop = (core = 0) => 5 + core * (segmentHeight + coreGap);
+  const cpuBottom = coreTop(coreCount - 1) + segmentHeight;
+  const ioTop = cpuBottom + 10;
+  // Swimlane view: one row per process instead
+  const laneHeight = 28;
+  const laneTop = (index: number) => 5 + index * (laneHeight + 8);
+  const axisOffset = swimlanes
+    ? laneTop(lanes.length - 1) + laneHeight - 5
+    : ioRows.count > 0
+      ? ioTop + ioRows.count * (ioRowHeight + 4)
+      : cpuBottom - 5;
+  const showLaneLabels = !swimlanes && (coreCount > 1 || ioRows.count > 0);
 
   return (
     <motion.div
@@ -137,179 +411,462 @@ export function GanttChart({ segments, allPids, totalTime }: GanttChartProps) {
       animate={{ opacity: 1, y: 0 }}
       transition={{ delay: 0.2 }}
       className="card overflow-hidden"
+      ref={cardRef}
     >
       <div className="p-4 border-b border-gray-200 dark:border-gray-700">
-        <div className="flex items-center justify-between">
+        <div className="flex flex-wrap items-center justify-between gap-2">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
             Gantt Chart
           </h2>
-          <div className="flex items-center gap-2">
-            {!isPlaying ? (
+          <div className="flex flex-wrap items-center gap-2">
+            {lanes.length > 0 && (
               <button
-                onClick={handlePlay}
+                onClick={() => setLayout(swimlanes ? 'timeline' : 'swimlanes')}
                 className="btn-secondary flex items-center gap-1 text-sm py-1.5 px-3"
-                title="Play animation"
+                title={
+                  swimlanes
+                    ? 'Show the CPU timeline'
+                    : 'One row per process with running and waiting time'
+                }
               >
-                <Play className="w-4 h-4" />
-                Play
+                <ChartGantt className="w-4 h-4" />
+                {swimlanes ? 'Timeline' : 'By Process'}
               </button>
-            ) : (
+            )}
+            <div className="flex items-center gap-1">
               <button
-                onClick={handlePause}
-                className="btn-secondary flex items-center gap-1 text-sm py-1.5 px-3"
-                title="Pause animation"
+                onClick={() => zoomTo(pxPerUnit / ZOOM_STEP)}
+                disabled={pxPerUnit <= fitZoom}
+                className="btn-secondary text-sm py-1.5 px-2"
+                title="Zoom out"
               >
-                <Pause className="w-4 h-4" />
-                Pause
+                <ZoomOut className="w-4 h-4" />
               </button>
-            )}
+              <span
+                className="w-14 text-center text-xs tabular-nums text-gray-500 dark:text-gray-400"
+                title="Zoom relative to fit-to-width (Ctrl + scroll or pinch to zoom, drag to pan)"
+              >
+                {Math.round((pxPerUnit / fitZoom) * 100)}%
+              </span>
+              <button
+                onClick={() => zoomTo(pxPerUnit * ZOOM_STEP)}
+                disabled={pxPerUnit >= MAX_ZOOM}
+                className="btn-secondary text-sm py-1.5 px-2"
+                title="Zoom in"
+              >
+                <ZoomIn className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleFit}
+                disabled={zoom === null}
+                className="btn-secondary text-sm py-1.5 px-2"
+                title="Fit to width"
+              >
+                <Maximize2 className="w-4 h-4" />
+              </button>
+            </div>
             <button
-              onClick={handleStep}
+              onClick={handleExportSvg}
+              disabled={isPlaying}
               className="btn-secondary flex items-center gap-1 text-sm py-1.5 px-3"
-              title="Step forward"
+              title="Download as SVG"
             >
-              <SkipForward className="w-4 h-4" />
+              <Download className="w-4 h-4" />
+              SVG
             </button>
             <button
-              onClick={handleReset}
-              className="btn-secondary flex items-center gap-1 text-sm py-1.5 px-3"
-              title="Reset"
+              onClick={handleExportPng}
+              disabled={isPlaying}
+              className={`btn-secondary flex items-center gap-1 text-sm py-1.5 px-3 ${
+                pngFailed ? 'text-red-600 dark:text-red-400' : ''
+              }`}
+              title={
+                pngFailed
+                  ? 'The PNG could not be rendered; try the SVG download'
+                  : 'Download as PNG (2x resolution)'
+              }
             >
-              <RotateCcw className="w-4 h-4" />
+              {pngFailed ? (
+                <AlertTriangle className="w-4 h-4" />
+              ) : (
+                <Download className="w-4 h-4" />
+              )}
+              {pngFailed ? 'PNG failed' : 'PNG'}
             </button>
           </div>
         </div>
       </div>
 
-      <div className="p-4 overflow-x-auto">
-        <svg
-          width={Math.max(600, totalTime * 30 + chartPadding * 2)}
-          height={chartHeight + chartPadding}
-          className="block"
+      {/* Playback */}
+      <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-center gap-2">
+        <button
+          onClick={handleStepBack}
+          className="btn-secondary text-sm py-1.5 px-2"
+          title="Step back"
         >
-          {/* Time axis */}
-          <line
-            x1={chartPadding}
-            y1={segmentHeight + 15}
-            x2={chartPadding + totalTime * 30}
-            y2={segmentHeight + 15}
-            stroke="currentColor"
-            className="text-gray-300 dark:text-gray-600"
-            strokeWidth="2"
-          />
+          <SkipBack className="w-4 h-4" />
+        </button>
+        {!isPlaying ? (
+          <button
+            onClick={handlePlay}
+            className="btn-secondary flex items-center gap-1 text-sm py-1.5 px-3"
+            title="Play animation"
+          >
+            <Play className="w-4 h-4" />
+            Play
+          </button>
+        ) : (
+          <button
+            onClick={handlePause}
+            className="btn-secondary flex items-center gap-1 text-sm py-1.5 px-3"
+            title="Pause animation"
+          >
+            <Pause className="w-4 h-4" />
+            Pause
+          </button>
+        )}
+        <button
+          onClick={handleStep}
+          className="btn-secondary text-sm py-1.5 px-2"
+          title="Step forward"
+        >
+          <SkipForward className="w-4 h-4" />
+        </button>
+        {events && events.length > 0 && (
+          <button
+            onClick={handleNextEvent}
+            className="btn-secondary text-sm py-1.5 px-2"
+            title="Jump to the next scheduling event"
+          >
+            <FastForward className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={handleReset}
+          className="btn-secondary text-sm py-1.5 px-2"
+          title="Reset"
+        >
+          <RotateCcw className="w-4 h-4" />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={totalTime}
+          step="any"
+          value={animationProgress}
+          onChange={(e) => handleScrub(Number(e.target.value))}
+          className="flex-1 min-w-32 accent-blue-600"
+          aria-label="Playback position"
+        />
+        <span className="w-28 text-right text-xs tabular-nums text-gray-500 dark:text-gray-400">
+          t = {Number(animationProgress.toFixed(1))} / {totalTime}
+        </span>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="select w-auto py-1 px-2 text-sm"
+          title="Playback speed"
+        >
+          {PLAYBACK_SPEEDS.map((option) => (
+            <option key={option} value={option}>
+              {option}x
+            </option>
+          ))}
+        </select>
+      </div>
 
-          {/* Time markers */}
-          {timeMarkers.map((time) => (
-            <g key={time}>
-              <line
-                x1={chartPadding + time * 30}
-                y1={segmentHeight + 10}
-                x2={chartPadding + time * 30}
-                y2={segmentHeight + 20}
-                stroke="currentColor"
-                className="text-gray-400 dark:text-gray-500"
-                strokeWidth="1"
+      <div className="p-4">
+        <div
+          ref={scrollRef}
+          className={`overflow-x-auto touch-pan-x ${pxPerUnit > fitZoom ? 'cursor-grab' : ''}`}
+          onScroll={(e) =>
+            setViewport({ left: e.currentTarget.scrollLeft, width: e.currentTarget.clientWidth })
+          }
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={endPan}
+          onPointerLeave={endPan}
+        >
+          <svg
+            ref={svgRef}
+            width={contentWidth}
+            height={chartHeight + chartPadding + (axisOffset - segmentHeight)}
+            className="block"
+          >
+            {/* Time axis */}
+            <line
+              x1={chartPadding}
+              y1={axisOffset + 15}
+              x2={x(totalTime)}
+              y2={axisOffset + 15}
+              stroke="currentColor"
+              className="text-gray-300 dark:text-gray-600"
+              strokeWidth="2"
+            />
+
+            {/* Time markers */}
+            {timeMarkers.map((time) => (
+              <g key={time}>
+                <line
+                  x1={x(time)}
+                  y1={axisOffset + 10}
+                  x2={x(time)}
+                  y2={axisOffset + 20}
+                  stroke="currentColor"
+                  className="text-gray-400 dark:text-gray-500"
+                  strokeWidth="1"
+                />
+                <text
+                  x={x(time)}
+                  y={axisOffset + 35}
+                  textAnchor="middle"
+                  className="fill-gray-500 dark:fill-gray-400 text-xs"
+                >
+                  {time}
+                </text>
+              </g>
+            ))}
+
+            {/* Per-process rows */}
+            {swimlanes && (
+              <SwimlaneRows
+                lanes={lanes}
+                x={x}
+                top={laneTop}
+                height={laneHeight}
+                labelX={chartPadding - 6}
+                multiCore={coreCount > 1}
+                progress={inPlayback ? animationProgress : null}
+                colorOf={(pid) => getProcessHexColor(pid, allPids)}
+                onHover={handleMouseEnter}
+                onLeave={handleMouseLeave}
               />
+            )}
+
+            {/* Segments */}
+            {!swimlanes &&
+              segments.map((segment, index) => {
+                const left = x(segment.start);
+                const width = (segment.end - segment.start) * pxPerUnit;
+                const y = coreTop(segment.core);
+                const isActive =
+                  animationProgress > 0 &&
+                  animationProgress >= segment.start &&
+                  animationProgress < segment.end;
+                const isCompleted = animationProgress > 0 && animationProgress >= segment.end;
+                const isIdle = segment.pid === null && segment.kind !== 'switch';
+
+                return (
+                  <g key={`${segment.pid}-${segment.start}-${index}`}>
+                    {/* Segment background */}
+                    <rect
+                      x={left}
+                      y={y}
+                      width={width}
+                      height={segmentHeight}
+                      rx={4}
+                      fill={isCompleted || !inPlayback ? getSegmentColor(segment) : '#e5e7eb'}
+                      className={`transition-all duration-200 cursor-pointer ${
+                        isActive && isPlaying ? 'animate-pulse-soft' : ''
+                      }`}
+                      style={{
+                        opacity: isIdle ? 0.5 : 1,
+                      }}
+                      onMouseEnter={(e) => handleMouseEnter(e, segment)}
+                      onMouseLeave={handleMouseLeave}
+                    />
+
+                    {/* Progress fill during animation */}
+                    {isActive && inPlayback && (
+                      <rect
+                        x={left}
+                        y={y}
+                        width={Math.max(0, (animationProgress - segment.start) * pxPerUnit)}
+                        height={segmentHeight}
+                        rx={4}
+                        fill={getSegmentColor(segment)}
+                        style={{
+                          opacity: isIdle ? 0.5 : 1,
+                        }}
+                      />
+                    )}
+
+                    {/* Segment label */}
+                    {width >= 30 && (
+                      <text
+                        x={left + width / 2}
+                        y={y + segmentHeight / 2 + 5}
+                        textAnchor="middle"
+                        className="fill-white text-sm font-medium pointer-events-none"
+                        style={{
+                          textShadow: '0 1px 2px rgba(0,0,0,0.3)',
+                        }}
+                      >
+                        {getSegmentLabel(segment)}
+                      </text>
+                    )}
+
+                    {/* Border */}
+                    <rect
+                      x={left}
+                      y={y}
+                      width={width}
+                      height={segmentHeight}
+                      rx={4}
+                      fill="none"
+                      stroke={isActive && inPlayback ? '#3b82f6' : 'transparent'}
+                      strokeWidth="2"
+                    />
+                  </g>
+                );
+              })}
+
+            {/* Lane labels */}
+            {showLaneLabels &&
+              Array.from({ length: coreCount }, (_, core) => (
+                <text
+                  key={`core-${core}`}
+                  x={chartPadding - 6}
+                  y={coreTop(core) + segmentHeight / 2 + 4}
+                  textAnchor="end"
+                  className="fill-gray-500 dark:fill-gray-400 text-xs"
+                >
+                  {coreCount > 1 ? `CPU${core}` : 'CPU'}
+                </text>
+              ))}
+            {!swimlanes && ioRows.count > 0 && (
               <text
-                x={chartPadding + time * 30}
-                y={segmentHeight + 35}
-                textAnchor="middle"
+                x={chartPadding - 6}
+                y={ioTop + ioRowHeight / 2 + 4}
+                textAnchor="end"
                 className="fill-gray-500 dark:fill-gray-400 text-xs"
               >
-                {time}
+                I/O
               </text>
-            </g>
-          ))}
+            )}
 
-          {/* Segments */}
-          {segments.map((segment, index) => {
-            const x = chartPadding + segment.start * 30;
-            const width = (segment.end - segment.start) * 30;
-            const isActive = index === currentSegmentIndex;
-            const isCompleted =
-              animationProgress > 0 &&
-              (index < currentSegmentIndex ||
-                (index === currentSegmentIndex && animationProgress >= segment.end));
-            const isIdle = segment.pid === null;
-
-            return (
-              <g key={`${segment.pid}-${segment.start}-${index}`}>
-                {/* Segment background */}
-                <rect
-                  x={x}
-                  y={5}
-                  width={width}
-                  height={segmentHeight}
-                  rx={4}
-                  fill={isCompleted || !isPlaying ? getSegmentColor(segment.pid) : '#e5e7eb'}
-                  className={`transition-all duration-200 cursor-pointer ${
-                    isActive && isPlaying ? 'animate-pulse-soft' : ''
-                  }`}
-                  style={{
-                    opacity: isIdle ? 0.5 : 1,
-                  }}
-                  onMouseEnter={(e) => handleMouseEnter(e, segment)}
-                  onMouseLeave={handleMouseLeave}
-                />
+            {/* I/O lane */}
+            {!swimlanes &&
+              ioRows.rows.map(({ segment, row }, index) => {
+                const left = x(segment.start);
+                const width = (segment.end - segment.start) * pxPerUnit;
+                const y = ioTop + row * (ioRowHeight + 4);
+                const color = getSegmentColor(segment);
+                const isDone = !inPlayback || animationProgress >= segment.end;
 
-                {/* Progress fill during animation */}
-                {isActive && isPlaying && (
-                  <rect
-                    x={x}
-                    y={5}
-                    width={Math.max(0, (animationProgress - segment.start) * 30)}
-                    height={segmentHeight}
-                    rx={4}
-                    fill={getSegmentColor(segment.pid)}
-                    style={{
-                      opacity: isIdle ? 0.5 : 1,
-                    }}
+                return (
+                  <g key={`io-${segment.pid}-${segment.start}-${index}`}>
+                    <rect
+                      x={left}
+                      y={y}
+                      width={width}
+                      height={ioRowHeight}
+                      rx={4}
+                      fill={isDone ? color : '#e5e7eb'}
+                      fillOpacity={isDone ? 0.35 : 1}
+                      stroke={color}
+                      strokeDasharray="4,2"
+                      className="cursor-pointer"
+                      onMouseEnter={(e) => handleMouseEnter(e, segment, true)}
+                      onMouseLeave={handleMouseLeave}
+                    />
+                    {!isDone && animationProgress > segment.start && (
+                      <rect
+                        x={left}
+                        y={y}
+                        width={(animationProgress - segment.start) * pxPerUnit}
+                        height={ioRowHeight}
+                        rx={4}
+                        fill={color}
+                        fillOpacity={0.35}
+                        className="pointer-events-none"
+                      />
+                    )}
+                    {width >= 30 && (
+                      <text
+                        x={left + width / 2}
+                        y={y + ioRowHeight / 2 + 4}
+                        textAnchor="middle"
+                        className="fill-gray-700 dark:fill-gray-200 text-xs font-medium pointer-events-none"
+                      >
+                        {segment.pid}
+                      </text>
+                    )}
+                  </g>
+                );
+              })}
+
+            {/* Deadline misses, on the CPU lanes or the process's row */}
+            {misses.map((miss) => {
+              if (inPlayback && animationProgress < miss.deadline) return null;
+              const row = lanes.findIndex((lane) => lane.pid === miss.pid);
+              const [y1, y2] = swimlanes
+                ? [laneTop(row) - 3, laneTop(row) + laneHeight + 3]
+                : [0, cpuBottom + 3];
+              return (
+                <g key={`miss-${miss.pid}-${miss.release}`}>
+                  <line
+                    x1={x(miss.deadline)}
+                    y1={y1}
+                    x2={x(miss.deadline)}
+                    y2={y2}
+                    stroke="#dc2626"
+                    strokeWidth="2"
                   />
-                )}
-
-                {/* Segment label */}
-                {width >= 30 && (
-                  <text
-                    x={x + width / 2}
-                    y={5 + segmentHeight / 2 + 5}
-                    textAnchor="middle"
-                    className="fill-white text-sm font-medium pointer-events-none"
-                    style={{
-                      textShadow: '0 1px 2px rgba(0,0,0,0.3)',
-                    }}
+                  <path
+                    d={`M ${x(miss.deadline) - 5} ${y1} h 10 l -5 7 z`}
+                    fill="#dc2626"
+                    className="cursor-help"
                   >
-                    {isIdle ? 'IDLE' : segment.pid}
-                  </text>
-                )}
-
-                {/* Border */}
-                <rect
-                  x={x}
-                  y={5}
-                  width={width}
-                  height={segmentHeight}
-                  rx={4}
-                  fill="none"
-                  stroke={isActive && isPlaying ? '#3b82f6' : 'transparent'}
-                  strokeWidth="2"
-                />
-              </g>
-            );
-          })}
+                    <title>
+                      {`${miss.pid} released at ${miss.release} missed its deadline ` +
+                        `${miss.deadline} (completed at ${Number(miss.completion.toFixed(2))})`}
+                    </title>
+                  </path>
+                </g>
+              );
+            })}
 
-          {/* Current time indicator */}
-          {isPlaying && animationProgress > 0 && (
-            <line
-              x1={chartPadding + animationProgress * 30}
-              y1={0}
-              x2={chartPadding + animationProgress * 30}
-              y2={segmentHeight + 10}
-              stroke="#ef4444"
-              strokeWidth="2"
-              strokeDasharray="4,2"
-            />
-          )}
-        </svg>
+            {/* Current time indicator */}
+            {inPlayback && animationProgress > 0 && (
+              <line
+                x1={x(animationProgress)}
+                y1={0}
+                x2={x(animationProgress)}
+                y2={axisOffset + 10}
+                stroke="#ef4444"
+                strokeWidth="2"
+                strokeDasharray="4,2"
+              />
+            )}
+          </svg>
+        </div>
+
+        {/* Overview of the whole run when zoomed in */}
+        {contentWidth > viewport.width + 1 && (
+          <Minimap
+            segments={segments}
+            totalTime={totalTime}
+            coreCount={coreCount}
+            colorOf={getSegmentColor}
+            viewStart={(viewport.left - chartPadding) / pxPerUnit}
+            viewEnd={(viewport.left + viewport.width - chartPadding) / pxPerUnit}
+            onSeek={scrollToTime}
+          />
+        )}
+
+        {/* Ready queue, following the playback position */}
+        {events && processes && algorithm && (
+          <ReadyQueueView
+            events={events}
+            segments={segments}
+            processes={processes}
+            algorithm={algorithm}
+            allPids={allPids}
+            time={animationProgress}
+            aging={aging}
+          />
+        )}
 
         {/* Legend */}
         <div className="mt-4 flex flex-wrap gap-4">
@@ -322,13 +879,58 @@ export function GanttChart({ segments, allPids, totalTime }: GanttChartProps) {
               <span className="text-sm text-gray-600 dark:text-gray-400">{pid}</span>
             </div>
           ))}
-          <div className="flex items-center gap-2">
-            <div
-              className="w-4 h-4 rounded opacity-50"
-              style={{ backgroundColor: '#9ca3af' }}
-            />
-            <span className="text-sm text-gray-600 dark:text-gray-400">IDLE</span>
-          </div>
+          {swimlanes ? (
+            <>
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 rounded border border-gray-500 bg-gray-400/20" />
+                <span className="text-sm text-gray-600 dark:text-gray-400">Waiting (ready)</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div
+                  className="w-4 h-4 rounded border border-gray-300 dark:border-gray-600"
+                  style={{
+                    background:
+                      'repeating-linear-gradient(45deg, #9ca3af66 0 2px, transparent 2px 5px)',
+                  }}
+                />
+                <span className="text-sm text-gray-600 dark:text-gray-400">Not arrived</span>
+              </div>
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                ▼ Arrival &nbsp; ● Completion
+              </span>
+            </>
+          ) : (
+            <div className="flex items-center gap-2">
+              <div
+                className="w-4 h-4 rounded opacity-50"
+                style={{ backgroundColor: '#9ca3af' }}
+              />
+              <span className="text-sm text-gray-600 dark:text-gray-400">IDLE</span>
+            </div>
+          )}
+          {!swimlanes && hasSwitches && (
+            <div className="flex items-center gap-2">
+              <div
+                className="w-4 h-4 rounded"
+                style={{ backgroundColor: SWITCH_COLOR }}
+              />
+              <span className="text-sm text-gray-600 dark:text-gray-400">Context Switch</span>
+            </div>
+          )}
+          {ioRows.count > 0 && (
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-4 rounded border border-dashed border-gray-500 bg-gray-400/30" />
+              <span className="text-sm text-gray-600 dark:text-gray-400">I/O</span>
+            </div>
+          )}
+          {misses.length > 0 && (
+            <div className="flex items-center gap-2">
+              <div className="w-0.5 h-4 bg-red-600" />
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                Deadline miss ({misses.length})
+              </span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -347,17 +949,282 @@ export function GanttChart({ segments, allPids, totalTime }: GanttChartProps) {
             }}
           >
             <div className="font-medium">
-              {tooltip.segment.pid || 'IDLE'}
+              {tooltip.title ??
+                (tooltip.segment.kind === 'switch'
+                  ? 'Context Switch'
+                  : tooltip.segment.pid || 'IDLE')}
+              {tooltip.isIO && ' (I/O)'}
             </div>
             <div className="text-gray-300 text-xs">
-              Start: {tooltip.segment.start} | End: {tooltip.segment.end}
+              Start: {formatNumber(tooltip.segment.start)} | End:{' '}
+              {formatNumber(tooltip.segment.end)}
             </div>
             <div className="text-gray-300 text-xs">
-              Duration: {tooltip.segment.end - tooltip.segment.start} units
+              Duration: {formatNumber(tooltip.segment.end - tooltip.segment.start)} units
             </div>
+            {tooltip.segment.core !== undefined && (
+              <div className="text-gray-300 text-xs">Core: {tooltip.segment.core}</div>
+            )}
+            {tooltip.segment.detail && (
+              <div className="text-gray-300 text-xs">{tooltip.segment.detail}</div>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
     </motion.div>
   );
 }
+
+interface MinimapProps {
+  segments: GanttSegment[];
+  totalTime: number;
+  coreCount: number;
+  colorOf: (segment: GanttSegment) => string;
+  viewStart: number;
+  viewEnd: number;
+  onSeek: (time: number) => void;
+}
+
+// Whole-run overview with the visible window marked; click or drag to move the view
+function Minimap({
+  segments,
+  totalTime,
+  coreCount,
+  colorOf,
+  viewStart,
+  viewEnd,
+  onSeek,
+}: MinimapProps) {
+  const [dragging, setDragging] = useState(false);
+  const clamp = (time: number) => Math.min(totalTime, Math.max(0, time));
+  const start = clamp(viewStart);
+  const end = clamp(viewEnd);
+
+  const seek = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(((e.clientX - rect.left) / rect.width) * totalTime);
+  };
+
+  return (
+    <div
+      className="relative mt-3 h-8 rounded bg-gray-100 dark:bg-gray-800 cursor-pointer select-none touch-none"
+      title="Overview: click or drag to move the view"
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDragging(true);
+        seek(e);
+      }}
+      onPointerMove={(e) => dragging && seek(e)}
+      onPointerUp={() => setDragging(false)}
+      onPointerCancel={() => setDragging(false)}
+    >
+      <svg
+        className="absolute inset-0 w-full h-full"
+        viewBox={`0 0 ${totalTime} ${coreCount}`}
+        preserveAspectRatio="none"
+      >
+        {segments.map((segment, index) => (
+          <rect
+            key={index}
+            x={segment.start}
+            y={(segment.core ?? 0) + 0.15}
+            width={segment.end - segment.start}
+            height={0.7}
+            fill={colorOf(segment)}
+            opacity={segment.pid === null ? 0.5 : 1}
+          />
+        ))}
+      </svg>
+      <div
+        className="absolute inset-y-0 border-2 border-blue-500 bg-blue-500/10 rounded pointer-events-none"
+        style={{
+          left: `${(start / totalTime) * 100}%`,
+          width: `${((end - start) / totalTime) * 100}%`,
+        }}
+      />
+    </div>
+  );
+}
+
+interface SwimlaneRowsProps {
+  lanes: ProcessLane[];
+  x: (time: number) => number;
+  top: (index: number) => number;
+  height: number;
+  labelX: number;
+  multiCore: boolean;
+  progress: number | null; // draw only up to this time while playing
+  colorOf: (pid: string) => string;
+  onHover: (
+    e: React.MouseEvent<SVGRectElement>,
+    segment: GanttSegment,
+    isIO?: boolean,
+    title?: string
+  ) => void;
+  onLeave: () => void;
+}
+
+// One row per process: hatched before arrival, then running, waiting and I/O spans
+function SwimlaneRows({
+  lanes,
+  x,
+  top,
+  height,
+  labelX,
+  multiCore,
+  progress,
+  colorOf,
+  onHover,
+  onLeave,
+}: SwimlaneRowsProps) {
+  const shown = (time: number) => progress === null || progress >= time;
+  const clip = (span: LaneSpan) => (progress === null ? span.end : Math.min(span.end, progress));
+  const round = (value: number) => Number(value.toFixed(2));
+
+  return (
+    <g>
+      <defs>
+        <pattern
+          id="not-arrived-hatch"
+          width="6"
+          height="6"
+          patternUnits="userSpaceOnUse"
+          patternTransform="rotate(45)"
+        >
+          <line x1="0" y1="0" x2="0" y2="6" stroke="#9ca3af" strokeWidth="2" strokeOpacity="0.4" />
+        </pattern>
+      </defs>
+      {lanes.map((lane, index) => {
+        const y = top(index);
+        const color = colorOf(lane.pid);
+        const thin = height * 0.6;
+
+        return (
+          <g key={lane.pid}>
+            <text
+              x={labelX}
+              y={y + height / 2 + 4}
+              textAnchor="end"
+              className="fill-gray-500 dark:fill-gray-400 text-xs"
+            >
+              {lane.pid}
+            </text>
+
+            {/* Not yet arrived */}
+            {lane.arrival > 0 && (
+              <rect
+                x={x(0)}
+                y={y}
+                width={x(lane.arrival) - x(0)}
+                height={height}
+                fill="url(#not-arrived-hatch)"
+              />
+            )}
+
+            {lane.spans.map((span) => {
+              // A periodic task between jobs is neither running nor waiting
+              if (!shown(span.start) || span.state === 'idle') return null;
+              const left = x(span.start);
+              const width = x(clip(span)) - left;
+              const duration = span.end - span.start;
+              const segment: GanttSegment = {
+                pid: lane.pid,
+                start: span.start,
+                end: span.end,
+                core: span.core,
+              };
+
+              if (span.state === 'running') {
+                return (
+                  <g key={`run-${span.start}`}>
+                    <rect
+                      x={left}
+                      y={y}
+                      width={width}
+                      height={height}
+                      rx={3}
+                      fill={color}
+                      className="cursor-pointer"
+                      onMouseEnter={(e) => onHover(e, segment)}
+                      onMouseLeave={onLeave}
+                    />
+                    {multiCore && width >= 40 && (
+                      <text
+                        x={left + width / 2}
+                        y={y + height / 2 + 4}
+                        textAnchor="middle"
+                        className="fill-white text-xs font-medium pointer-events-none"
+                      >
+                        CPU{span.core}
+                      </text>
+                    )}
+                  </g>
+                );
+              }
+
+              const isWaiting = span.state === 'waiting';
+              const waiting = {
+                ...segment,
+                detail: `Total waiting: ${round(lane.waitingTime)} units`,
+              };
+              return (
+                <g key={`${span.state}-${span.start}`}>
+                  <rect
+                    x={left}
+                    y={y + (height - thin) / 2}
+                    width={width}
+                    height={thin}
+                    rx={3}
+                    fill={isWaiting ? color : '#9ca3af'}
+                    fillOpacity={isWaiting ? 0.2 : 0.3}
+                    stroke={isWaiting ? color : '#6b7280'}
+                    strokeDasharray={isWaiting ? undefined : '4,2'}
+                    className="cursor-pointer"
+                    onMouseEnter={(e) =>
+                      isWaiting
+                        ? onHover(e, waiting, false, `${lane.pid} waiting`)
+                        : onHover(e, segment, true)
+                    }
+                    onMouseLeave={onLeave}
+                  />
+                  {width >= 50 && (
+                    <text
+                      x={left + width / 2}
+                      y={y + height / 2 + 4}
+                      textAnchor="middle"
+                      className="fill-gray-600 dark:fill-gray-300 text-xs pointer-events-none"
+                    >
+                      {isWaiting ? `wait ${round(duration)}` : 'I/O'}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+
+            {/* Arrival and completion markers */}
+            {shown(lane.arrival) && (
+              <path
+                d={`M ${x(lane.arrival) - 5} ${y - 3} h 10 l -5 7 z`}
+                className="fill-gray-700 dark:fill-gray-200"
+              >
+                <title>{`${lane.pid} arrives at ${lane.arrival}`}</title>
+              </path>
+            )}
+            {shown(lane.completion) && (
+              <circle
+                cx={x(lane.completion)}
+                cy={y + height / 2}
+                r={4}
+                stroke="#ffffff"
+                strokeWidth="1.5"
+                className="fill-gray-700 dark:fill-gray-200"
+              >
+                <title>{`${lane.pid} completes at ${lane.completion}`}</title>
+              </circle>
+            )}
+          </g>
+        );
+      })}
+    </g>
+  );
+}
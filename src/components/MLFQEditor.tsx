@@ -0,0 +1,120 @@
+import { Plus, Trash2 } from 'lucide-react';
+import type { MLFQConfig, MLFQLevel, MLFQLevelPolicy } from '../types';
+
+interface MLFQEditorProps {
+  config: MLFQConfig;
+  onChange: (config: MLFQConfig) => void;
+}
+
+const MAX_LEVELS = 8;
+
+export function MLFQEditor({ config, onChange }: MLFQEditorProps) {
+  const updateLevel = (index: number, changes: Partial<MLFQLevel>) => {
+    const levels = config.levels.map((level, i) =>
+      i === index ? { ...level, ...changes } : level
+    );
+    onChange({ ...config, levels });
+  };
+
+  const addLevel = () => {
+    const last = config.levels[config.levels.length - 1];
+    const quantum = last ? last.quantum * 2 : 2;
+    onChange({
+      ...config,
+      levels: [...config.levels, { quantum, policy: 'RR' }],
+    });
+  };
+
+  const removeLevel = (index: number) => {
+    onChange({
+      ...config,
+      levels: config.levels.filter((_, i) => i !== index),
+    });
+  };
+
+  return (
+    <div className="mt-4 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+          Queue Levels
+        </h3>
+        <button
+          onClick={addLevel}
+          disabled={config.levels.length >= MAX_LEVELS}
+          className="btn-secondary flex items-center gap-1 text-sm py-1.5 px-3 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          Add Level
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {config.levels.map((level, index) => (
+          <div key={index} className="flex items-center gap-3">
+            <span className="w-16 text-sm font-mono text-gray-600 dark:text-gray-400">
+              Q{index}
+            </span>
+            <select
+              aria-label={`Queue ${index} policy`}
+              value={level.policy}
+              onChange={(e) =>
+                updateLevel(index, { policy: e.target.value as MLFQLevelPolicy })
+              }
+              className="select w-28 py-1 text-sm"
+            >
+              <option value="RR">RR</option>
+              <option value="FCFS">FCFS</option>
+            </select>
+            <input
+              aria-label={`Queue ${index} quantum`}
+              type="number"
+              min="1"
+              value={level.quantum}
+              onChange={(e) =>
+                updateLevel(index, {
+                  quantum: Math.max(1, parseInt(e.target.value, 10) || 1),
+                })
+              }
+              disabled={level.policy === 'FCFS'}
+              className={`input w-24 py-1 text-sm ${level.policy === 'FCFS' ? 'opacity-50' : ''}`}
+            />
+            <button
+              onClick={() => removeLevel(index)}
+              disabled={config.levels.length <= 1}
+              className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors disabled:opacity-30"
+              aria-label={`Remove queue ${index}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 max-w-xs">
+        <label htmlFor="boost-interval" className="label">
+          Priority Boost Interval
+        </label>
+        <input
+          id="boost-interval"
+          type="number"
+          min="0"
+          value={config.boostInterval}
+          onChange={(e) =>
+            onChange({
+              ...config,
+              boostInterval: Math.max(0, parseInt(e.target.value, 10) || 0),
+            })
+          }
+          className="input"
+        />
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Every N units all processes return to Q0 (0 = off)
+        </p>
+      </div>
+
+      <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+        New processes enter Q0. Using a full quantum demotes a process one level.
+      </p>
+    </div>
+  );
+}
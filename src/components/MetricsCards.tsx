@@ -1,44 +1,107 @@
-import { Clock, Timer, Zap, Cpu } from 'lucide-react';
+import { Clock, Timer, Zap, Cpu, Repeat, Scale, Hourglass, AlertTriangle } from 'lucide-react';
 import { motion } from 'framer-motion';
 import type { SimulationResult } from '../types';
+import type { PartialMetrics } from '../lib/playback';
 
 interface MetricsCardsProps {
   result: SimulationResult;
+  // Metrics at the Gantt playback position; cards without a partial value show the final one
+  partial?: PartialMetrics | null;
+  starvationThreshold: number;
 }
 
-export function MetricsCards({ result }: MetricsCardsProps) {
+export function MetricsCards({ result, partial, starvationThreshold }: MetricsCardsProps) {
+  const starved = result.processMetrics.filter((m) => m.starved).map((m) => m.pid);
+  const time = partial ? `at t = ${Number(partial.time.toFixed(1))}` : '';
+
   const cards = [
     {
       title: 'Avg Waiting Time',
-      value: result.averageWaitingTime.toFixed(2),
+      value: (partial ?? result).averageWaitingTime.toFixed(2),
       unit: 'units',
       icon: Clock,
       color: 'blue',
-      description: 'Average time processes spend waiting in ready queue',
+      description: partial
+        ? `Waited so far, over the ${partial.arrived} processes that have arrived`
+        : 'Average time processes spend waiting in ready queue',
     },
     {
       title: 'Avg Turnaround Time',
-      value: result.averageTurnaroundTime.toFixed(2),
+      value: (partial ?? result).averageTurnaroundTime.toFixed(2),
       unit: 'units',
       icon: Timer,
       color: 'emerald',
-      description: 'Average time from arrival to completion',
+      description: partial
+        ? `Over the ${partial.completed} of ${partial.total} processes completed so far`
+        : 'Average time from arrival to completion',
     },
     {
       title: 'Avg Response Time',
-      value: result.averageResponseTime.toFixed(2),
+      value: (partial ?? result).averageResponseTime.toFixed(2),
       unit: 'units',
       icon: Zap,
       color: 'amber',
-      description: 'Average time from arrival to first CPU execution',
+      description: partial
+        ? 'Over the processes that have started so far'
+        : 'Average time from arrival to first CPU execution',
     },
     {
       title: 'CPU Utilization',
-      value: result.cpuUtilization.toFixed(1),
+      value: (partial ?? result).cpuUtilization.toFixed(1),
       unit: '%',
       icon: Cpu,
       color: 'purple',
-      description: 'Percentage of time CPU was busy',
+      description: partial
+        ? `Useful work from 0 to ${Number(partial.time.toFixed(1))}`
+        : [
+            result.switchOverhead > 0
+              ? `Useful work only; ${result.cpuUtilizationWithOverhead.toFixed(1)}% including switch overhead`
+              : 'Percentage of time CPU was busy',
+            result.coreUtilization.length > 1 &&
+              result.coreUtilization.map((u, core) => `CPU${core}: ${u.toFixed(1)}%`).join(' · '),
+          ]
+            .filter(Boolean)
+            .join('. '),
+    },
+    {
+      title: 'Context Switches',
+      value: (partial ?? result).contextSwitches.toString(),
+      unit: 'switches',
+      icon: Repeat,
+      color: 'rose',
+      description: partial
+        ? `Switches started before t = ${Number(partial.time.toFixed(1))}`
+        : `${result.switchOverhead} units spent switching between processes`,
+    },
+    {
+      title: 'Fairness Index',
+      value: result.fairnessIndex.toFixed(3),
+      unit: 'Jain',
+      icon: Scale,
+      color: 'teal',
+      finalOnly: true,
+      description: "Jain's index over slowdown ((wait + CPU + I/O) / CPU); 1 = all slowed equally",
+    },
+    {
+      title: 'P95 Waiting Time',
+      value: result.p95WaitingTime.toFixed(2),
+      unit: 'units',
+      icon: Hourglass,
+      color: 'orange',
+      finalOnly: true,
+      description: `95% of processes waited at most this long; the longest wait was ${result.maxWaitingTime.toFixed(2)}`,
+    },
+    {
+      title: 'Starved Processes',
+      value: starved.length.toString(),
+      unit: `of ${result.processMetrics.length}`,
+      icon: AlertTriangle,
+      color: 'red',
+      finalOnly: true,
+      description:
+        starved.length > 0
+          ? `Waited more than ${starvationThreshold} units: ${starved.join(', ')}`
+          : `No process waited more than ${starvationThreshold} units`,
     },
   ];
 
@@ -64,6 +127,26 @@ export function MetricsCards({ result }: MetricsCardsProps) {
         icon: 'text-purple-600 dark:text-purple-400',
         text: 'text-purple-600 dark:text-purple-400',
       },
+      rose: {
+        bg: 'bg-rose-100 dark:bg-rose-900/30',
+        icon: 'text-rose-600 dark:text-rose-400',
+        text: 'text-rose-600 dark:text-rose-400',
+      },
+      teal: {
+        bg: 'bg-teal-100 dark:bg-teal-900/30',
+        icon: 'text-teal-600 dark:text-teal-400',
+        text: 'text-teal-600 dark:text-teal-400',
+      },
+      orange: {
+        bg: 'bg-orange-100 dark:bg-orange-900/30',
+        icon: 'text-orange-600 dark:text-orange-400',
+        text: 'text-orange-600 dark:text-orange-400',
+      },
+      red: {
+        bg: 'bg-red-100 dark:bg-red-900/30',
+        icon: 'text-red-600 dark:text-red-400',
+        text: 'text-red-600 dark:text-red-400',
+      },
     };
     return colors[color] || colors.blue;
   };
@@ -80,12 +163,19 @@ export function MetricsCards({ result }: MetricsCardsProps) {
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.3 + index * 0.05 }}
-            className="card p-4"
+            className={`card p-4 transition-opacity ${
+              partial && card.finalOnly ? 'opacity-60' : ''
+            }`}
           >
             <div className="flex items-start justify-between">
               <div className={`p-2 rounded-lg ${colors.bg}`}>
                 <Icon className={`w-5 h-5 ${colors.icon}`} />
               </div>
+              {partial && (
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {card.finalOnly ? 'final' : time}
+                </span>
+              )}
             </div>
 
             <div className="mt-3">
@@ -0,0 +1,98 @@
+import { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import type { Process } from '../types';
+import { burstPredictions } from '../lib/prediction';
+import { getProcessHexColor } from '../lib/colors';
+
+interface PredictionViewProps {
+  processes: Process[];
+  alpha: number;
+  tau0: number;
+  allPids: string[];
+}
+
+export function PredictionView({ processes, alpha, tau0, allPids }: PredictionViewProps) {
+  const predictions = useMemo(
+    () => burstPredictions(processes, alpha, tau0),
+    [processes, alpha, tau0]
+  );
+  const all = predictions.flatMap((p) => p.bursts);
+  const overall =
+    all.length > 0 ? all.reduce((sum, b) => sum + Math.abs(b.error), 0) / all.length : 0;
+  const format = (value: number) => Number(value.toFixed(2));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.42 }}
+      className="card p-6"
+    >
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Burst Prediction</h2>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          Mean |error|: <span className="font-mono font-medium">{format(overall)}</span>
+        </span>
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+        The scheduler ranked processes by τ, its guess of the next CPU burst, and only learned
+        the actual length t when the burst ended: τ(n+1) = {alpha}·t(n) + {format(1 - alpha)}·τ(n),
+        starting from τ0 = {tau0}.
+      </p>
+
+      <div className="overflow-x-auto mt-4">
+        <table className="w-full">
+          <thead>
+            <tr>
+              <th className="table-header">Process</th>
+              <th className="table-header">Predicted τ / Actual t per CPU Burst</th>
+              <th className="table-header text-center">Mean |Error|</th>
+            </tr>
+          </thead>
+          <tbody>
+            {predictions.map((prediction) => (
+              <tr key={prediction.pid} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                <td className="table-cell">
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="w-3 h-3 rounded-full"
+                      style={{ backgroundColor: getProcessHexColor(prediction.pid, allPids) }}
+                    />
+                    <span className="font-mono font-medium">{prediction.pid}</span>
+                  </div>
+                </td>
+                <td className="table-cell">
+                  <div className="flex flex-wrap gap-1.5">
+                    {prediction.bursts.map((burst, index) => (
+                      <span
+                        key={index}
+                        title={`Burst ${index + 1}: error ${burst.error > 0 ? '+' : ''}${format(burst.error)}`}
+                        className={`px-2 py-0.5 rounded font-mono text-xs ${
+                          Math.abs(burst.error) < 1e-9
+                            ? 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300'
+                            : burst.error > 0
+                              ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300'
+                              : 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'
+                        }`}
+                      >
+                        {format(burst.predicted)} / {burst.actual}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+                <td className="table-cell text-center font-mono">
+                  {format(prediction.meanAbsoluteError)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+        Green: exact. Amber: overestimated (the process looked longer than it was). Red:
+        underestimated. Only processes with several CPU bursts, or periodic tasks, give the
+        predictor something to learn from.
+      </p>
+    </motion.div>
+  );
+}
@@ -1,30 +1,76 @@
-import { useState } from 'react';
-import { Plus, Trash2, Upload, AlertCircle } from 'lucide-react';
+import { useMemo, useRef, useState } from 'react';
+import { Plus, Trash2, Upload, AlertCircle, FileUp, Download, X, Dices } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { Process } from '../types';
-import { validateProcess, getExampleProcesses } from '../lib/scheduler';
+import type { Process, Algorithm } from '../types';
+import {
+  validateProcess,
+  getExampleProcesses,
+  parseNumberList,
+  formatBurstSequence,
+  getAlgorithm,
+  ticketsOf,
+  NICE_OFFSET,
+} from '../lib/scheduler';
+import { exportCSV, exportJSON, parseProcessFile } from '../lib/processFiles';
 import { getProcessColor } from '../lib/colors';
+import { downloadFile } from '../lib/download';
+import { WorkloadGenerator } from './WorkloadGenerator';
 
 interface ProcessTableProps {
   processes: Process[];
   onProcessesChange: (processes: Process[]) => void;
+  algorithm: Algorithm;
+  quantum: number;
+  onSettingsImport: (settings: { algorithm?: Algorithm; quantum?: number }) => void;
   disabled?: boolean;
 }
 
+interface ImportErrors {
+  fileName: string;
+  messages: string[];
+}
+
 interface EditingCell {
   index: number;
-  field: 'pid' | 'arrivalTime' | 'burstTime' | 'priority';
+  field: 'pid' | 'arrivalTime' | 'burstTime' | 'priority' | 'tickets' | OptionalField | ListField;
 }
 
+// Numeric fields that may be left empty
+type OptionalField = 'period' | 'deadline';
+
+// Fields edited as free text and parsed into a list of numbers on commit
+type ListField = 'bursts' | 'affinity';
+
 export function ProcessTable({
   processes,
   onProcessesChange,
+  algorithm,
+  quantum,
+  onSettingsImport,
   disabled = false,
 }: ProcessTableProps) {
-  const [errors, setErrors] = useState<Map<number, string[]>>(new Map());
   const [editingCell, setEditingCell] = useState<EditingCell | null>(null);
+  const [draft, setDraft] = useState('');
+  // Tokens of a list draft that are not numbers >= 0; the edit stays open until fixed
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<ImportErrors | null>(null);
+  const [generatorOpen, setGeneratorOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const allPids = processes.map((p) => p.pid);
+  // Validation errors per row, also for rows restored, loaded or generated with problems
+  const errors = useMemo(() => {
+    const rowErrors = new Map<number, string[]>();
+    processes.forEach((process, index) => {
+      const validation = validateProcess(process);
+      if (!validation.valid) rowErrors.set(index, validation.errors);
+    });
+    return rowErrors;
+  }, [processes]);
+  const { processFields = [], queueKey } = getAlgorithm(algorithm);
+  const showTickets = processFields.includes('tickets');
+  const showRealTime = processFields.includes('period');
+  const showNice = queueKey === 'nice';
 
   const addProcess = () => {
     const newPid = `P${processes.length + 1}`;
@@ -46,46 +92,112 @@ export function ProcessTable({
       const numValue = typeof value === 'string' ? parseInt(value, 10) || 0 : value;
       updated[index] = { ...updated[index], [field]: numValue };
     }
+    onProcessesChange(updated);
+  };
+
+  // An empty value removes the field
+  const updateOptional = (index: number, field: OptionalField, text: string) => {
+    const updated = [...processes];
+    const value = parseFloat(text);
+    const process = { ...updated[index] };
+    if (Number.isFinite(value)) process[field] = value;
+    else delete process[field];
+    updated[index] = process;
+    onProcessesChange(updated);
+  };
 
-    // Validate
-    const validation = validateProcess(updated[index]);
-    const newErrors = new Map(errors);
-    if (!validation.valid) {
-      newErrors.set(index, validation.errors);
+  // A single number is a plain CPU burst; a longer list alternates CPU and I/O
+  const updateBursts = (index: number, bursts: number[]) => {
+    const updated = [...processes];
+    const current = updated[index];
+    if (bursts.length <= 1) {
+      updated[index] = { ...current, bursts: undefined, burstTime: bursts[0] ?? current.burstTime };
     } else {
-      newErrors.delete(index);
+      const cpuTotal = bursts.reduce((sum, length, i) => (i % 2 === 0 ? sum + length : sum), 0);
+      updated[index] = { ...current, bursts, burstTime: cpuTotal };
     }
-    setErrors(newErrors);
+    onProcessesChange(updated);
+  };
 
+  // An empty list means the process may run on any core
+  const updateAffinity = (index: number, cores: number[]) => {
+    const updated = [...processes];
+    updated[index] = { ...updated[index], affinity: cores.length > 0 ? cores : undefined };
     onProcessesChange(updated);
   };
 
+  const startEditingList = (index: number, field: ListField) => {
+    const values = processes[index][field];
+    setDraft(values && values.length > 0 ? values.join(' ') : '');
+    setDraftError(null);
+    setEditingCell({ index, field });
+  };
+
+  const commitList = (index: number, field: ListField) => {
+    const { values, invalid } = parseNumberList(draft);
+    if (invalid.length > 0) {
+      setDraftError(`Not a number >= 0: ${invalid.join(', ')}`);
+      return;
+    }
+    if (field === 'bursts') {
+      updateBursts(index, values);
+    } else {
+      updateAffinity(index, values);
+    }
+    setEditingCell(null);
+  };
+
   const deleteProcess = (index: number) => {
     const updated = processes.filter((_, i) => i !== index);
     // Update insertion orders
     const reordered = updated.map((p, i) => ({ ...p, insertionOrder: i }));
     onProcessesChange(reordered);
-
-    // Clear errors for deleted process
-    const newErrors = new Map(errors);
-    newErrors.delete(index);
-    setErrors(newErrors);
   };
 
   const loadExample = () => {
     onProcessesChange(getExampleProcesses());
-    setErrors(new Map());
   };
 
   const clearAll = () => {
     onProcessesChange([]);
-    setErrors(new Map());
+  };
+
+  const loadGenerated = (generated: Process[]) => {
+    onProcessesChange(generated);
+  };
+
+  // The table is only replaced when every row of the file is valid
+  const importFile = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      setImportErrors({ fileName: file.name, messages: ['The file could not be read'] });
+      return;
+    }
+    const result = parseProcessFile(file.name, text);
+    if (result.errors.length > 0) {
+      setImportErrors({ fileName: file.name, messages: result.errors });
+      return;
+    }
+    setImportErrors(null);
+    onProcessesChange(result.processes);
+    if (result.algorithm !== undefined || result.quantum !== undefined) {
+      onSettingsImport({ algorithm: result.algorithm, quantum: result.quantum });
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still triggers a change
+    e.target.value = '';
+    if (file) importFile(file);
   };
 
   const handleKeyDown = (
     e: React.KeyboardEvent,
     _index: number,
-    _field: 'pid' | 'arrivalTime' | 'burstTime' | 'priority'
+    _field: 'pid' | 'arrivalTime' | 'burstTime' | 'priority' | 'tickets' | OptionalField
   ) => {
     if (e.key === 'Enter' || e.key === 'Tab') {
       setEditingCell(null);
@@ -106,7 +218,56 @@ export function ProcessTable({
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
             Process Input
           </h2>
-          <div className="flex gap-2">
+          <div className="flex flex-wrap justify-end gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled}
+              className="btn-secondary flex items-center gap-2 text-sm"
+              title="Import a CSV (pid,arrival,burst,priority) or JSON file"
+            >
+              <FileUp className="w-4 h-4" />
+              Import
+            </button>
+            <button
+              onClick={() => downloadFile('processes.csv', exportCSV(processes), 'text/csv')}
+              disabled={processes.length === 0}
+              className="btn-secondary flex items-center gap-2 text-sm"
+              title="Export processes as CSV"
+            >
+              <Download className="w-4 h-4" />
+              CSV
+            </button>
+            <button
+              onClick={() =>
+                downloadFile(
+                  'processes.json',
+                  exportJSON(processes, algorithm, quantum),
+                  'application/json'
+                )
+              }
+              disabled={processes.length === 0}
+              className="btn-secondary flex items-center gap-2 text-sm"
+              title="Export processes with algorithm and quantum as JSON"
+            >
+              <Download className="w-4 h-4" />
+              JSON
+            </button>
+            <button
+              onClick={() => setGeneratorOpen(true)}
+              disabled={disabled}
+              className="btn-secondary flex items-center gap-2 text-sm"
+              title="Generate random processes"
+            >
+              <Dices className="w-4 h-4" />
+              Generate
+            </button>
             <button
               onClick={loadExample}
               disabled={disabled}
@@ -135,11 +296,45 @@ export function ProcessTable({
         </div>
       </div>
 
+      {/* Import errors */}
+      <AnimatePresence>
+        {importErrors && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="overflow-hidden border-b border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-900/20"
+          >
+            <div className="p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex items-center gap-2 text-sm font-medium text-red-700 dark:text-red-400">
+                  <AlertCircle className="w-4 h-4" />
+                  Could not import {importErrors.fileName}; the table was not changed.
+                </div>
+                <button
+                  onClick={() => setImportErrors(null)}
+                  className="p-1 text-red-400 hover:text-red-600 dark:hover:text-red-300"
+                  aria-label="Dismiss import errors"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <ul className="mt-2 max-h-40 overflow-y-auto text-sm text-red-600 dark:text-red-400 list-disc list-inside">
+                {importErrors.messages.map((message, index) => (
+                  <li key={index}>{message}</li>
+                ))}
+              </ul>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {processes.length === 0 ? (
         <div className="p-8 text-center text-gray-500 dark:text-gray-400">
           <p className="mb-2">No processes added yet.</p>
           <p className="text-sm">
-            Click "Add Process" to create a new process, or "Load Example" to use sample data.
+            Click "Add Process" to create a new process, "Load Example" to use sample data, or
+            "Import" to load a CSV or JSON file.
           </p>
         </div>
       ) : (
@@ -151,7 +346,12 @@ export function ProcessTable({
                 <th className="table-header">Process ID</th>
                 <th className="table-header">Arrival Time</th>
                 <th className="table-header">Burst Time</th>
+                <th className="table-header">CPU / I/O Bursts</th>
                 <th className="table-header">Priority</th>
+                {showTickets && <th className="table-header">Tickets</th>}
+                {showRealTime && <th className="table-header">Period</th>}
+                {showRealTime && <th className="table-header">Deadline</th>}
+                <th className="table-header">Affinity</th>
                 <th className="table-header w-16">Actions</th>
               </tr>
             </thead>
@@ -224,7 +424,14 @@ export function ProcessTable({
                         )}
                       </td>
                       <td className="table-cell">
-                        {editingCell?.index === index && editingCell?.field === 'burstTime' ? (
+                        {process.bursts && process.bursts.length > 0 ? (
+                          <span
+                            className="font-mono text-gray-500 dark:text-gray-400"
+                            title="Sum of the CPU bursts"
+                          >
+                            {process.burstTime}
+                          </span>
+                        ) : editingCell?.index === index && editingCell?.field === 'burstTime' ? (
                           <input
                             type="number"
                             min="1"
@@ -246,6 +453,45 @@ export function ProcessTable({
                           </button>
                         )}
                       </td>
+                      <td className="table-cell">
+                        {editingCell?.index === index && editingCell?.field === 'bursts' ? (
+                          <>
+                            <input
+                              type="text"
+                              value={draft}
+                              placeholder="e.g. 4 3 2"
+                              onChange={(e) => {
+                                setDraft(e.target.value);
+                                setDraftError(null);
+                              }}
+                              onBlur={() => commitList(index, 'bursts')}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') commitList(index, 'bursts');
+                                if (e.key === 'Escape') setEditingCell(null);
+                              }}
+                              className={`input py-1 text-sm w-40 ${
+                                draftError ? 'border-red-500 dark:border-red-500' : ''
+                              }`}
+                              aria-invalid={draftError !== null}
+                              autoFocus
+                              disabled={disabled}
+                            />
+                            {draftError && (
+                              <p className="mt-1 text-xs text-red-600 dark:text-red-400">{draftError}</p>
+                            )}
+                          </>
+                        ) : (
+                          <button
+                            onClick={() => startEditingList(index, 'bursts')}
+                            className="font-mono text-sm hover:text-blue-600 dark:hover:text-blue-400"
+                            disabled={disabled}
+                          >
+                            {process.bursts && process.bursts.length > 0
+                              ? formatBurstSequence(process.bursts)
+                              : '—'}
+                          </button>
+                        )}
+                      </td>
                       <td className="table-cell">
                         {editingCell?.index === index && editingCell?.field === 'priority' ? (
                           <input
@@ -269,6 +515,107 @@ export function ProcessTable({
                           </button>
                         )}
                       </td>
+                      {showTickets && (
+                        <td className="table-cell">
+                          {editingCell?.index === index && editingCell?.field === 'tickets' ? (
+                            <input
+                              type="number"
+                              min="1"
+                              value={ticketsOf(process)}
+                              onChange={(e) => updateProcess(index, 'tickets', e.target.value)}
+                              onBlur={() => setEditingCell(null)}
+                              onKeyDown={(e) => handleKeyDown(e, index, 'tickets')}
+                              className="input py-1 text-sm w-20"
+                              autoFocus
+                              disabled={disabled}
+                            />
+                          ) : (
+                            <button
+                              onClick={() => setEditingCell({ index, field: 'tickets' })}
+                              className="font-mono hover:text-blue-600 dark:hover:text-blue-400"
+                              disabled={disabled}
+                              title="Share of the CPU relative to the other processes"
+                            >
+                              {ticketsOf(process)}
+                            </button>
+                          )}
+                        </td>
+                      )}
+                      {showRealTime &&
+                        (['period', 'deadline'] as const).map((field) => (
+                          <td key={field} className="table-cell">
+                            {editingCell?.index === index && editingCell?.field === field ? (
+                              <input
+                                type="number"
+                                min="1"
+                                value={process[field] ?? ''}
+                                placeholder={field === 'period' ? 'none' : 'period'}
+                                onChange={(e) => updateOptional(index, field, e.target.value)}
+                                onBlur={() => setEditingCell(null)}
+                                onKeyDown={(e) => handleKeyDown(e, index, field)}
+                                className="input py-1 text-sm w-20"
+                                autoFocus
+                                disabled={disabled}
+                              />
+                            ) : (
+                              <button
+                                onClick={() => setEditingCell({ index, field })}
+                                className="font-mono hover:text-blue-600 dark:hover:text-blue-400"
+                                disabled={disabled}
+                                title={
+                                  field === 'period'
+                                    ? 'A job of the burst time is released every period'
+                                    : 'Time after each release by which the job must finish'
+                                }
+                              >
+                                {process[field] ??
+                                  (field === 'deadline' && process.period !== undefined
+                                    ? '= period'
+                                    : '—')}
+                              </button>
+                            )}
+                          </td>
+                        ))}
+                      <td className="table-cell">
+                        {editingCell?.index === index && editingCell?.field === 'affinity' ? (
+                          <>
+                            <input
+                              type="text"
+                              value={draft}
+                              placeholder="e.g. 0 1"
+                              onChange={(e) => {
+                                setDraft(e.target.value);
+                                setDraftError(null);
+                              }}
+                              onBlur={() => commitList(index, 'affinity')}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') commitList(index, 'affinity');
+                                if (e.key === 'Escape') setEditingCell(null);
+                              }}
+                              className={`input py-1 text-sm w-24 ${
+                                draftError ? 'border-red-500 dark:border-red-500' : ''
+                              }`}
+                              aria-invalid={draftError !== null}
+                              autoFocus
+                              disabled={disabled}
+                            />
+                            {draftError && (
+                              <p className="mt-1 text-xs text-red-600 dark:text-red-400">{draftError}</p>
+                            )}
+                          </>
+                        ) : (
+                          <button
+                            onClick={() => startEditingList(index, 'affinity')}
+                            className="font-mono text-sm hover:text-blue-600 dark:hover:text-blue-400"
+                            disabled={disabled}
+                            title="Cores this process may run on"
+                          >
+                            {process.affinity && process.affinity.length > 0
+                              ? process.affinity.map((core) => `CPU${core}`).join(', ')
+                              : 'any'}
+                          </button>
+                        )}
+                      </td>
                       <td className="table-cell">
                         <button
                           onClick={() => deleteProcess(index)}
@@ -313,8 +660,23 @@ export function ProcessTable({
       <div className="p-3 bg-gray-50 dark:bg-gray-700/50 border-t border-gray-200 dark:border-gray-700">
         <p className="text-xs text-gray-500 dark:text-gray-400">
           Tip: Click on any value to edit it. Priority: lower number = higher priority.
+          Bursts: enter alternating CPU and I/O lengths, e.g. "4 3 2" for CPU 4, IO 3, CPU 2.
+          Affinity: list the cores a process may use, e.g. "0 2" (empty = any core).
+          {showNice &&
+            ` CFS reads priority as nice = priority - ${NICE_OFFSET}: 0 is nice -20, ${NICE_OFFSET} is` +
+              ' nice 0 and 39 or more is nice 19.'}
+          {showTickets && ' Tickets: a process with twice the tickets gets twice the CPU share.'}
+          {showRealTime &&
+            ' Period: release a job of the burst time (its WCET) every period; empty = runs once.' +
+              ' Deadline: relative to each release (empty = the period).'}
         </p>
       </div>
+
+      <WorkloadGenerator
+        open={generatorOpen}
+        onClose={() => setGeneratorOpen(false)}
+        onGenerate={loadGenerated}
+      />
     </motion.div>
   );
 }
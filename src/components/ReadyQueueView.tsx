@@ -0,0 +1,157 @@
+import { useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type {
+  AgingConfig,
+  Algorithm,
+  GanttSegment,
+  Process,
+  QueuedJob,
+  TraceEvent,
+  TraceEventType,
+} from '../types';
+import {
+  readyQueuesAt,
+  getAlgorithm,
+  ticketsOf,
+  niceOf,
+  responseRatio,
+  agedPriority,
+} from '../lib/scheduler';
+import { burstSequence } from '../lib/engine';
+import { relativeDeadline, jobRelease, jobId } from '../lib/realtime';
+import { getProcessHexColor } from '../lib/colors';
+
+// Events after which a process waits in the ready queue
+const READY_EVENTS: TraceEventType[] = ['arrival', 'io-return', 'preempt', 'quantum-expire'];
+
+interface ReadyQueueViewProps {
+  events: TraceEvent[];
+  segments: GanttSegment[];
+  processes: Process[];
+  algorithm: Algorithm;
+  allPids: string[];
+  time: number;
+  aging?: AgingConfig; // as simulated, for the effective priority of waiting processes
+}
+
+export function ReadyQueueView({
+  events,
+  segments,
+  processes,
+  algorithm,
+  allPids,
+  time,
+  aging,
+}: ReadyQueueViewProps) {
+  const queues = useMemo(() => readyQueuesAt(events, time), [events, time]);
+  const byPid = useMemo(() => new Map(processes.map((p) => [p.pid, p])), [processes]);
+
+  // CPU time each process has used so far
+  const cpuUsed = useMemo(() => {
+    const used = new Map<string, number>();
+    for (const s of segments) {
+      if (s.pid === null || s.kind === 'switch' || s.start >= time) continue;
+      used.set(s.pid, (used.get(s.pid) ?? 0) + Math.min(s.end, time) - s.start);
+    }
+    return used;
+  }, [segments, time]);
+
+  // When each job last entered the ready queue
+  const readySince = useMemo(() => {
+    const since = new Map<string, number>();
+    for (const e of events) {
+      if (e.time > time) break;
+      if (READY_EVENTS.includes(e.type)) since.set(jobId(e), e.time);
+    }
+    return since;
+  }, [events, time]);
+
+  const { queueKey } = getAlgorithm(algorithm);
+
+  // The value the algorithm orders the queue by, as shown on each card
+  const sortKey = ({ pid, job }: QueuedJob): string | null => {
+    const process = byPid.get(pid);
+    if (!process || !queueKey) return null;
+    if (queueKey === 'priority') {
+      const waiting = time - (readySince.get(jobId({ pid, job })) ?? time);
+      const effective = agedPriority(process.priority, waiting, aging);
+      return effective === process.priority
+        ? `prio ${process.priority}`
+        : `prio ${effective} (base ${process.priority})`;
+    }
+    if (queueKey === 'tickets') return `${ticketsOf(process)} tickets`;
+    if (queueKey === 'nice') return `nice ${niceOf(process)}`;
+    if (queueKey === 'period') {
+      return process.period === undefined ? null : `period ${process.period}`;
+    }
+    if (queueKey === 'deadline') {
+      // Each job's deadline counts from its own release
+      const deadline = relativeDeadline(process);
+      return deadline === undefined ? null : `due ${jobRelease(process, job) + deadline}`;
+    }
+
+    // CPU time used so far decides which CPU burst is current and what is left of it
+    const used = cpuUsed.get(pid) ?? 0;
+    const cpuBursts = burstSequence(process).filter((_, i) => i % 2 === 0);
+    let done = 0;
+    for (const burst of cpuBursts) {
+      if (used < done + burst) {
+        if (queueKey === 'ratio') {
+          // Waiting since it last entered the ready queue
+          const waiting = time - (readySince.get(jobId({ pid, job })) ?? 0);
+          return `ratio ${responseRatio(waiting, burst).toFixed(2)}`;
+        }
+        return queueKey === 'burst' ? `burst ${burst}` : `left ${done + burst - used}`;
+      }
+      done += burst;
+    }
+    return null;
+  };
+
+  return (
+    <div className="mt-4">
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+        Ready Queue{' '}
+        <span className="font-normal text-gray-500 dark:text-gray-400">
+          at t = {Number(time.toFixed(1))}
+        </span>
+      </h3>
+      <div className="space-y-2">
+        {queues.map((queue, core) => (
+          <div key={core} className="flex items-center gap-2 min-h-[3rem]">
+            {queues.length > 1 && (
+              <span className="w-12 text-xs text-gray-500 dark:text-gray-400">CPU{core}</span>
+            )}
+            <div className="flex flex-wrap items-center gap-2">
+              <AnimatePresence mode="popLayout" initial={false}>
+                {queue.map((entry, index) => {
+                  const { pid } = entry;
+                  const key = sortKey(entry);
+                  return (
+                    <motion.div
+                      key={jobId(entry)}
+                      layout
+                      initial={{ opacity: 0, x: 24 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      exit={{ opacity: 0, y: -16 }}
+                      transition={{ duration: 0.25 }}
+                      className="px-3 py-1.5 rounded-lg text-white shadow-sm"
+                      style={{ backgroundColor: getProcessHexColor(pid, allPids) }}
+                      title={index === 0 ? 'Next to run' : undefined}
+                    >
+                      <div className="text-sm font-medium leading-tight">{pid}</div>
+                      {key && <div className="text-xs opacity-90 leading-tight">{key}</div>}
+                    </motion.div>
+                  );
+                })}
+              </AnimatePresence>
+              {queue.length === 0 && (
+                <span className="text-sm text-gray-400 dark:text-gray-500">empty</span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
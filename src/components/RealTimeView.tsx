@@ -0,0 +1,146 @@
+import { motion } from 'framer-motion';
+import type { Algorithm, Process, SimulationResult } from '../types';
+import { schedulability, relativeDeadline, type Verdict } from '../lib/realtime';
+import { getProcessHexColor } from '../lib/colors';
+
+interface RealTimeViewProps {
+  processes: Process[];
+  result: SimulationResult;
+  algorithm: Algorithm;
+  allPids: string[];
+}
+
+const VERDICT_STYLES: Record<Verdict, { label: string; className: string }> = {
+  schedulable: {
+    label: 'Schedulable',
+    className: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  },
+  'not-schedulable': {
+    label: 'Not schedulable',
+    className: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  },
+  inconclusive: {
+    label: 'Inconclusive',
+    className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  },
+};
+
+export function RealTimeView({ processes, result, algorithm, allPids }: RealTimeViewProps) {
+  const byPid = new Map(processes.map((p) => [p.pid, p]));
+  const realTime = result.processMetrics.filter((m) => m.jobs);
+  const jobs = realTime.flatMap((m) => m.jobs!);
+  const missed = jobs.filter((job) => job.missed).length;
+  const tests = (['RM', 'EDF'] as const).map((id) => ({ id, test: schedulability(processes, id) }));
+  const format = (value: number) => Number(value.toFixed(2));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.42 }}
+      className="card p-6"
+    >
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Real-Time Analysis</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+        Periodic tasks release a job of their burst time (WCET) every period, over one
+        hyperperiod. {missed === 0 ? 'Every' : `${missed} of ${jobs.length}`} job
+        {missed === 0 ? ' met its deadline' : 's missed their deadline'} in this run.
+      </p>
+
+      {/* Utilization tests */}
+      {tests[0].test.tasks > 0 && (
+        <div className="grid gap-4 sm:grid-cols-2 mt-4">
+          {tests.map(({ id, test }) => (
+            <div
+              key={id}
+              className={`rounded-lg border p-4 ${
+                id === algorithm
+                  ? 'border-blue-400 dark:border-blue-500'
+                  : 'border-gray-200 dark:border-gray-700'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {id === 'RM' ? 'Rate Monotonic (Liu & Layland)' : 'EDF'}
+                </span>
+                <span
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium ${VERDICT_STYLES[test.verdict].className}`}
+                >
+                  {VERDICT_STYLES[test.verdict].label}
+                </span>
+              </div>
+              <p className="mt-2 font-mono text-sm text-gray-700 dark:text-gray-300">
+                U = {test.utilization.toFixed(3)}, bound {test.bound.toFixed(3)}
+              </p>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{test.reason}</p>
+            </div>
+          ))}
+        </div>
+      )}
+      {result.coreUtilization.length > 1 && (
+        <p className="text-xs text-amber-600 dark:text-amber-400 mt-2">
+          The utilization tests assume a single CPU.
+        </p>
+      )}
+
+      <div className="overflow-x-auto mt-4">
+        <table className="w-full">
+          <thead>
+            <tr>
+              <th className="table-header">Process</th>
+              <th className="table-header text-center">WCET</th>
+              <th className="table-header text-center">Period</th>
+              <th className="table-header text-center">Deadline</th>
+              <th className="table-header text-center">Utilization</th>
+              <th className="table-header text-center">Jobs</th>
+              <th className="table-header text-center">Missed</th>
+              <th className="table-header text-center">Worst Response</th>
+            </tr>
+          </thead>
+          <tbody>
+            {realTime.map((m) => {
+              const process = byPid.get(m.pid);
+              const taskJobs = m.jobs!;
+              const misses = taskJobs.filter((job) => job.missed).length;
+              const worst = Math.max(...taskJobs.map((job) => job.completion - job.release));
+              return (
+                <tr key={m.pid} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                  <td className="table-cell">
+                    <div className="flex items-center gap-2">
+                      <div
+                        className="w-3 h-3 rounded-full"
+                        style={{ backgroundColor: getProcessHexColor(m.pid, allPids) }}
+                      />
+                      <span className="font-mono font-medium">{m.pid}</span>
+                    </div>
+                  </td>
+                  <td className="table-cell text-center font-mono">{process?.burstTime}</td>
+                  <td className="table-cell text-center font-mono">{process?.period ?? '—'}</td>
+                  <td className="table-cell text-center font-mono">
+                    {process ? relativeDeadline(process) : '—'}
+                  </td>
+                  <td className="table-cell text-center font-mono">
+                    {process?.period ? format(process.burstTime / process.period) : '—'}
+                  </td>
+                  <td className="table-cell text-center font-mono">{taskJobs.length}</td>
+                  <td
+                    className={`table-cell text-center font-mono ${
+                      misses > 0 ? 'text-red-600 dark:text-red-400 font-semibold' : ''
+                    }`}
+                  >
+                    {misses}
+                  </td>
+                  <td className="table-cell text-center font-mono">{format(worst)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+        Worst response is the longest time from a job's release to its completion. Missed
+        deadlines are marked in red on the Gantt chart; a late job still runs to completion.
+      </p>
+    </motion.div>
+  );
+}
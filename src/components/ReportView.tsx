@@ -0,0 +1,257 @@
+import { ArrowLeft, Printer } from 'lucide-react';
+import type {
+  Algorithm,
+  GanttSegment,
+  Process,
+  SimulationOptions,
+  SimulationResult,
+} from '../types';
+import { formatBurstSequence } from '../lib/scheduler';
+import { reportSettings, formulaWorking, formatNumber } from '../lib/report';
+import { getProcessHexColor } from '../lib/colors';
+import { ResultsTable } from './ResultsTable';
+
+interface ReportViewProps {
+  result: SimulationResult;
+  processes: Process[];
+  algorithm: Algorithm;
+  quantum: number;
+  options: SimulationOptions;
+  allPids: string[];
+  onClose: () => void;
+}
+
+const SWITCH_COLOR = '#475569'; // slate-600
+const IDLE_COLOR = '#d1d5db'; // gray-300
+
+export function ReportView({
+  result,
+  processes,
+  algorithm,
+  quantum,
+  options,
+  allPids,
+  onClose,
+}: ReportViewProps) {
+  const settings = reportSettings(algorithm, quantum, options);
+  const hasBursts = processes.some((p) => p.bursts && p.bursts.length > 1);
+
+  // The same values as the metrics cards
+  const summary = [
+    { label: 'Avg Waiting Time', value: formatNumber(result.averageWaitingTime) },
+    { label: 'Avg Turnaround Time', value: formatNumber(result.averageTurnaroundTime) },
+    { label: 'Avg Response Time', value: formatNumber(result.averageResponseTime) },
+    { label: 'CPU Utilization', value: `${result.cpuUtilization.toFixed(1)}%` },
+    { label: 'Context Switches', value: String(result.contextSwitches) },
+    { label: 'Fairness Index', value: result.fairnessIndex.toFixed(3) },
+    { label: 'P95 Waiting Time', value: formatNumber(result.p95WaitingTime) },
+    { label: 'Total Time', value: formatNumber(result.totalTime) },
+  ];
+
+  return (
+    <div className="report min-h-screen bg-gray-100 print:bg-white">
+      {/* Toolbar (not printed) */}
+      <div className="sticky top-0 z-10 bg-white border-b border-gray-200 print:hidden">
+        <div className="max-w-4xl mx-auto px-4 py-3 flex items-center justify-between">
+          <button onClick={onClose} className="btn-secondary flex items-center gap-2 text-sm">
+            <ArrowLeft className="w-4 h-4" />
+            Back to Simulator
+          </button>
+          <button
+            onClick={() => window.print()}
+            className="btn-primary flex items-center gap-2 text-sm"
+          >
+            <Printer className="w-4 h-4" />
+            Print / Save as PDF
+          </button>
+        </div>
+      </div>
+
+      <article className="report-page max-w-4xl mx-auto my-6 p-10 bg-white shadow-sm text-gray-900 space-y-8 print:my-0 print:p-0 print:shadow-none">
+        <header className="border-b border-gray-300 pb-4">
+          <h1 className="text-2xl font-bold">CPU Scheduling Report</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {settings[0].value} · {processes.length} processes · generated{' '}
+            {new Date().toLocaleString()}
+          </p>
+        </header>
+
+        {/* Parameters */}
+        <section className="report-section">
+          <h2 className="text-lg font-semibold mb-3">Parameters</h2>
+          <dl className="grid grid-cols-2 gap-x-8 gap-y-1 text-sm">
+            {settings.map((setting) => (
+              <div key={setting.label} className="flex justify-between border-b border-gray-100 py-1">
+                <dt className="text-gray-500">{setting.label}</dt>
+                <dd className="font-medium text-right">{setting.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+
+        {/* Process input */}
+        <section className="report-section">
+          <h2 className="text-lg font-semibold mb-3">Processes</h2>
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="border-b-2 border-gray-300 text-left">
+                <th className="py-1.5 pr-4">Process</th>
+                <th className="py-1.5 pr-4 text-right">Arrival (AT)</th>
+                <th className="py-1.5 pr-4 text-right">Burst (BT)</th>
+                <th className="py-1.5 pr-4 text-right">Priority</th>
+                {hasBursts && <th className="py-1.5">Bursts</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {processes.map((p) => (
+                <tr key={p.pid} className="border-b border-gray-100">
+                  <td className="py-1.5 pr-4 font-mono font-medium">{p.pid}</td>
+                  <td className="py-1.5 pr-4 text-right">{p.arrivalTime}</td>
+                  <td className="py-1.5 pr-4 text-right">{p.burstTime}</td>
+                  <td className="py-1.5 pr-4 text-right">{p.priority}</td>
+                  {hasBursts && (
+                    <td className="py-1.5 text-xs text-gray-600">
+                      {p.bursts && p.bursts.length > 1 ? formatBurstSequence(p.bursts) : ''}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        {/* Summary metrics */}
+        <section className="report-section">
+          <h2 className="text-lg font-semibold mb-3">Summary</h2>
+          <dl className="grid grid-cols-4 gap-3">
+            {summary.map((item) => (
+              <div key={item.label} className="border border-gray-200 rounded-lg p-3">
+                <dt className="text-xs text-gray-500">{item.label}</dt>
+                <dd className="text-lg font-semibold">{item.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+
+        {/* Gantt chart */}
+        <section className="report-section">
+          <h2 className="text-lg font-semibold mb-3">Gantt Chart</h2>
+          <StaticGantt segments={result.ganttChart} allPids={allPids} totalTime={result.totalTime} />
+        </section>
+
+        {/* Per-process metrics */}
+        <section className="report-section">
+          <ResultsTable metrics={result.processMetrics} allPids={allPids} />
+        </section>
+
+        {/* Formula working */}
+        <section className="report-section">
+          <h2 className="text-lg font-semibold mb-1">Working</h2>
+          <p className="text-xs text-gray-500 mb-3">
+            CT = completion time, AT = arrival time, BT = burst time, IO = time blocked on I/O,
+            Start = first time on the CPU
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            {result.processMetrics.map((m) => (
+              <div key={m.pid} className="report-working border border-gray-200 rounded-lg p-3">
+                <div className="font-mono font-semibold text-sm mb-1">{m.pid}</div>
+                <ul className="font-mono text-xs space-y-0.5 text-gray-700">
+                  {formulaWorking(m).map((line) => (
+                    <li key={line}>{line}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </section>
+      </article>
+    </div>
+  );
+}
+
+interface StaticGanttProps {
+  segments: GanttSegment[];
+  allPids: string[];
+  totalTime: number;
+}
+
+// Gantt chart sized to the page width, with every boundary labelled
+function StaticGantt({ segments, allPids, totalTime }: StaticGanttProps) {
+  const width = 720;
+  const laneHeight = 32;
+  const laneGap = 6;
+  const labelWidth = 40;
+  const coreCount = segments.reduce((max, s) => Math.max(max, (s.core ?? 0) + 1), 1);
+  const scale = (width - labelWidth - 10) / Math.max(totalTime, 1);
+  const x = (time: number) => labelWidth + time * scale;
+  const axisY = coreCount * (laneHeight + laneGap);
+
+  // Segment boundaries; labels closer than 14px to the previous one are skipped
+  const boundaries = [...new Set(segments.flatMap((s) => [s.start, s.end]))].sort((a, b) => a - b);
+  const markers: number[] = [];
+  for (const time of boundaries) {
+    if (markers.length === 0 || x(time) - x(markers[markers.length - 1]) >= 14) markers.push(time);
+  }
+
+  const color = (segment: GanttSegment) => {
+    if (segment.kind === 'switch') return SWITCH_COLOR;
+    if (segment.pid === null) return IDLE_COLOR;
+    return getProcessHexColor(segment.pid, allPids);
+  };
+
+  return (
+    <svg viewBox={`0 0 ${width} ${axisY + 24}`} className="w-full h-auto">
+      {Array.from({ length: coreCount }, (_, core) => (
+        <text
+          key={core}
+          x={labelWidth - 6}
+          y={core * (laneHeight + laneGap) + laneHeight / 2 + 4}
+          textAnchor="end"
+          fontSize="11"
+          fill="#6b7280"
+        >
+          {coreCount > 1 ? `CPU${core}` : 'CPU'}
+        </text>
+      ))}
+      {segments.map((segment, index) => {
+        const y = (segment.core ?? 0) * (laneHeight + laneGap);
+        const segmentWidth = (segment.end - segment.start) * scale;
+        const label = segment.kind === 'switch' ? 'CS' : (segment.pid ?? 'IDLE');
+        return (
+          <g key={index}>
+            <rect
+              x={x(segment.start)}
+              y={y}
+              width={segmentWidth}
+              height={laneHeight}
+              fill={color(segment)}
+              stroke="#ffffff"
+              strokeWidth="1"
+            />
+            {segmentWidth >= label.length * 7 + 4 && (
+              <text
+                x={x(segment.start) + segmentWidth / 2}
+                y={y + laneHeight / 2 + 4}
+                textAnchor="middle"
+                fontSize="11"
+                fontWeight="600"
+                fill={segment.pid === null && segment.kind !== 'switch' ? '#374151' : '#ffffff'}
+              >
+                {label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      <line x1={x(0)} y1={axisY} x2={x(totalTime)} y2={axisY} stroke="#9ca3af" />
+      {markers.map((time) => (
+        <g key={time}>
+          <line x1={x(time)} y1={axisY} x2={x(time)} y2={axisY + 4} stroke="#9ca3af" />
+          <text x={x(time)} y={axisY + 16} textAnchor="middle" fontSize="10" fill="#374151">
+            {formatNumber(time)}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
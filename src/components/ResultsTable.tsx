@@ -1,6 +1,8 @@
 import { motion } from 'framer-motion';
+import { AlertTriangle } from 'lucide-react';
 import type { ProcessMetrics } from '../types';
 import { getProcessColor } from '../lib/colors';
+import { formatNumber } from '../lib/report';
 
 interface ResultsTableProps {
   metrics: ProcessMetrics[];
@@ -12,6 +14,8 @@ export function ResultsTable({ metrics, allPids }: ResultsTableProps) {
     return null;
   }
 
+  const hasIO = metrics.some((m) => m.ioTime > 0);
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -37,11 +41,12 @@ export function ResultsTable({ metrics, allPids }: ResultsTableProps) {
               <th className="table-header text-center">Burst</th>
               <th className="table-header text-center">Priority</th>
               <th className="table-header text-center">Completion</th>
+              {hasIO && <th className="table-header text-center">I/O</th>}
               <th className="table-header text-center">
                 <div className="flex flex-col items-center">
                   <span>Waiting</span>
                   <span className="font-normal text-gray-400 dark:text-gray-500 text-[10px]">
-                    (CT - AT - BT)
+                    {hasIO ? '(CT - AT - BT - IO)' : '(CT - AT - BT)'}
                   </span>
                 </div>
               </th>
@@ -61,6 +66,14 @@ export function ResultsTable({ metrics, allPids }: ResultsTableProps) {
                   </span>
                 </div>
               </th>
+              <th className="table-header text-center">
+                <div className="flex flex-col items-center">
+                  <span>Slowdown</span>
+                  <span className="font-normal text-gray-400 dark:text-gray-500 text-[10px]">
+                    {hasIO ? '((WT + BT + IO) / BT)' : '((WT + BT) / BT)'}
+                  </span>
+                </div>
+              </th>
             </tr>
           </thead>
           <tbody>
@@ -85,31 +98,40 @@ export function ResultsTable({ metrics, allPids }: ResultsTableProps) {
                     </div>
                   </td>
                   <td className="table-cell text-center font-mono">
-                    {proc.arrivalTime}
+                    {formatNumber(proc.arrivalTime)}
                   </td>
                   <td className="table-cell text-center font-mono">
-                    {proc.burstTime}
+                    {formatNumber(proc.burstTime)}
                   </td>
                   <td className="table-cell text-center font-mono">
                     {proc.priority}
                   </td>
                   <td className="table-cell text-center font-mono">
-                    {proc.completionTime}
+                    {formatNumber(proc.completionTime)}
                   </td>
+                  {hasIO && (
+                    <td className="table-cell text-center font-mono">
+                      {formatNumber(proc.ioTime)}
+                    </td>
+                  )}
                   <td className="table-cell text-center">
                     <span
-                      className={`font-mono px-2 py-0.5 rounded ${
-                        proc.waitingTime === 0
-                          ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
-                          : 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400'
+                      className={`inline-flex items-center gap-1 font-mono px-2 py-0.5 rounded ${
+                        proc.starved
+                          ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                          : proc.waitingTime === 0
+                            ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                            : 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400'
                       }`}
+                      title={proc.starved ? 'Starved: waited longer than the threshold' : undefined}
                     >
-                      {proc.waitingTime}
+                      {proc.starved && <AlertTriangle className="w-3 h-3" />}
+                      {formatNumber(proc.waitingTime)}
                     </span>
                   </td>
                   <td className="table-cell text-center">
                     <span className="font-mono px-2 py-0.5 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
-                      {proc.turnaroundTime}
+                      {formatNumber(proc.turnaroundTime)}
                     </span>
                   </td>
                   <td className="table-cell text-center">
@@ -120,16 +142,22 @@ export function ResultsTable({ metrics, allPids }: ResultsTableProps) {
                           : 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400'
                       }`}
                     >
-                      {proc.responseTime}
+                      {formatNumber(proc.responseTime)}
                     </span>
                   </td>
+                  <td className="table-cell text-center font-mono">
+                    {proc.slowdown.toFixed(2)}
+                  </td>
                 </motion.tr>
               );
             })}
           </tbody>
           <tfoot>
             <tr className="bg-gray-50 dark:bg-gray-700/50 font-medium">
-              <td colSpan={5} className="table-cell text-right text-gray-600 dark:text-gray-400">
+              <td
+                colSpan={hasIO ? 6 : 5}
+                className="table-cell text-right text-gray-600 dark:text-gray-400"
+              >
                 Averages:
               </td>
               <td className="table-cell text-center font-mono text-blue-600 dark:text-blue-400">
@@ -141,6 +169,9 @@ export function ResultsTable({ metrics, allPids }: ResultsTableProps) {
               <td className="table-cell text-center font-mono text-purple-600 dark:text-purple-400">
                 {(metrics.reduce((sum, p) => sum + p.responseTime, 0) / metrics.length).toFixed(2)}
               </td>
+              <td className="table-cell text-center font-mono text-gray-600 dark:text-gray-400">
+                {(metrics.reduce((sum, p) => sum + p.slowdown, 0) / metrics.length).toFixed(2)}
+              </td>
             </tr>
           </tfoot>
         </table>
@@ -151,9 +182,10 @@ export function ResultsTable({ metrics, allPids }: ResultsTableProps) {
         <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
           Formulas
         </h3>
-        <div className="grid gap-2 text-xs text-gray-600 dark:text-gray-400 sm:grid-cols-3">
+        <div className="grid gap-2 text-xs text-gray-600 dark:text-gray-400 sm:grid-cols-4">
           <div>
             <span className="font-medium">Waiting Time</span> = Completion - Arrival - Burst
+            {hasIO && ' - I/O'}
           </div>
           <div>
             <span className="font-medium">Turnaround Time</span> = Completion - Arrival
@@ -161,6 +193,10 @@ export function ResultsTable({ metrics, allPids }: ResultsTableProps) {
           <div>
             <span className="font-medium">Response Time</span> = First CPU Start - Arrival
           </div>
+          <div>
+            <span className="font-medium">Slowdown</span> = (Waiting + Burst{hasIO && ' + I/O'}) /
+            Burst
+          </div>
         </div>
       </div>
     </motion.div>
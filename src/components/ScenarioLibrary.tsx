@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { BookOpen, Save, Pencil, Copy, Trash2, Check, X, FolderOpen } from 'lucide-react';
+import type { Process, Algorithm, Scenario } from '../types';
+import {
+  BUILT_IN_SCENARIOS,
+  saveScenario,
+  renameScenario,
+  deleteScenario,
+  duplicateScenario,
+} from '../lib/scenarios';
+import { getAlgorithm } from '../lib/scheduler';
+
+interface ScenarioLibraryProps {
+  library: Scenario[];
+  onLibraryChange: (library: Scenario[]) => void;
+  onLoad: (scenario: Scenario) => void;
+  processes: Process[];
+  algorithm: Algorithm;
+  quantum: number;
+  disabled?: boolean;
+}
+
+function summary(scenario: Scenario): string {
+  const count = scenario.processes.length;
+  const definition = getAlgorithm(scenario.algorithm);
+  const usesQuantum = definition.params.some((p) => p.name === 'quantum');
+  const quantum = usesQuantum ? ` (q=${scenario.quantum})` : '';
+  return `${count} process${count === 1 ? '' : 'es'} · ${definition.shortLabel}${quantum}`;
+}
+
+export function ScenarioLibrary({
+  library,
+  onLibraryChange,
+  onLoad,
+  processes,
+  algorithm,
+  quantum,
+  disabled = false,
+}: ScenarioLibraryProps) {
+  const [saveName, setSaveName] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+
+  const trimmedName = saveName.trim();
+  const replacing = library.some((s) => s.name === trimmedName);
+
+  const handleSave = () => {
+    if (trimmedName === '' || processes.length === 0) return;
+    onLibraryChange(saveScenario(library, { name: trimmedName, processes, algorithm, quantum }));
+    setSaveName('');
+  };
+
+  const startRename = (name: string) => {
+    setRenaming(name);
+    setRenameDraft(name);
+  };
+
+  const commitRename = () => {
+    if (renaming !== null) {
+      onLibraryChange(renameScenario(library, renaming, renameDraft));
+    }
+    setRenaming(null);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="card p-4"
+    >
+      <div className="flex items-center gap-2 mb-3">
+        <BookOpen className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Scenarios</h2>
+      </div>
+
+      {/* Built-in scenarios */}
+      <div className="flex flex-wrap gap-2">
+        {BUILT_IN_SCENARIOS.map((scenario) => (
+          <button
+            key={scenario.name}
+            onClick={() => onLoad(scenario)}
+            disabled={disabled}
+            className="btn-secondary text-sm py-1.5 px-3"
+            title={`${scenario.description} (${summary(scenario)})`}
+          >
+            {scenario.name}
+          </button>
+        ))}
+      </div>
+
+      {/* Saved scenarios */}
+      <div className="mt-4">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+          My Scenarios
+        </h3>
+        {library.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No saved scenarios yet. Name the current process set below to save it.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {library.map((scenario) => (
+              <li key={scenario.name} className="flex items-center gap-3 py-2">
+                {renaming === scenario.name ? (
+                  <input
+                    aria-label={`New name for ${scenario.name}`}
+                    value={renameDraft}
+                    onChange={(e) => setRenameDraft(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenaming(null);
+                    }}
+                    className="input py-1 text-sm flex-1"
+                    autoFocus
+                  />
+                ) : (
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {scenario.name}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{summary(scenario)}</p>
+                  </div>
+                )}
+                <div className="flex items-center gap-1">
+                  {renaming === scenario.name ? (
+                    <>
+                      <button
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={commitRename}
+                        className="p-1 text-gray-400 hover:text-green-600 dark:hover:text-green-400"
+                        aria-label="Confirm rename"
+                      >
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={() => setRenaming(null)}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                        aria-label="Cancel rename"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => onLoad(scenario)}
+                        disabled={disabled}
+                        className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-30"
+                        aria-label={`Load ${scenario.name}`}
+                        title="Load"
+                      >
+                        <FolderOpen className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => startRename(scenario.name)}
+                        className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                        aria-label={`Rename ${scenario.name}`}
+                        title="Rename"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => onLibraryChange(duplicateScenario(library, scenario.name))}
+                        className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                        aria-label={`Duplicate ${scenario.name}`}
+                        title="Duplicate"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => onLibraryChange(deleteScenario(library, scenario.name))}
+                        className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                        aria-label={`Delete ${scenario.name}`}
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Save current */}
+      <div className="mt-4 flex gap-2">
+        <input
+          aria-label="Scenario name"
+          placeholder="Scenario name"
+          value={saveName}
+          onChange={(e) => setSaveName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave();
+          }}
+          className="input text-sm"
+        />
+        <button
+          onClick={handleSave}
+          disabled={trimmedName === '' || processes.length === 0}
+          className="btn-primary flex items-center gap-2 text-sm whitespace-nowrap"
+          title={replacing ? 'Replace the saved scenario with this name' : 'Save the current processes'}
+        >
+          <Save className="w-4 h-4" />
+          {replacing ? 'Replace' : 'Save Current'}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+} from 'recharts';
+import type { Process, SimulationResult } from '../types';
+import { shareTracking } from '../lib/shares';
+import { getProcessHexColor } from '../lib/colors';
+
+interface ShareTrackingViewProps {
+  processes: Process[];
+  result: SimulationResult;
+  allPids: string[];
+}
+
+export function ShareTrackingView({ processes, result, allPids }: ShareTrackingViewProps) {
+  const tracking = useMemo(() => shareTracking(processes, result), [processes, result]);
+  const chartData = tracking.samples.map((sample) => ({ time: sample.time, ...sample.lag }));
+  const format = (value: number) => value.toFixed(2);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.42 }}
+      className="card p-6"
+    >
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Share Tracking</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+        CPU time each process received compared with what its tickets entitled it to. While a
+        process is runnable it is owed a slice of the CPU in proportion to its tickets; 0 means
+        it got exactly its share.
+      </p>
+
+      <div className="overflow-x-auto mt-4">
+        <table className="w-full">
+          <thead>
+            <tr>
+              <th className="table-header">Process</th>
+              <th className="table-header text-center">Tickets</th>
+              <th className="table-header text-center">Ticket Share</th>
+              <th className="table-header text-center">Entitled CPU</th>
+              <th className="table-header text-center">Received CPU</th>
+              <th className="table-header text-center">Error</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tracking.processes.map((share) => (
+              <tr key={share.pid} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                <td className="table-cell">
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="w-3 h-3 rounded-full"
+                      style={{ backgroundColor: getProcessHexColor(share.pid, allPids) }}
+                    />
+                    <span className="font-mono font-medium">{share.pid}</span>
+                  </div>
+                </td>
+                <td className="table-cell text-center font-mono">{share.tickets}</td>
+                <td className="table-cell text-center font-mono">
+                  {(share.ticketShare * 100).toFixed(1)}%
+                </td>
+                <td className="table-cell text-center font-mono">{format(share.entitled)}</td>
+                <td className="table-cell text-center font-mono">{format(share.received)}</td>
+                <td
+                  className={`table-cell text-center font-mono ${
+                    Math.abs(share.error) >= 1 ? 'text-amber-600 dark:text-amber-400' : ''
+                  }`}
+                >
+                  {share.error > 0 ? '+' : ''}
+                  {format(share.error)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Running error over time */}
+      <div className="h-64 mt-6">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={[0, result.totalTime]}
+              tick={{ fontSize: 12, fill: '#6b7280' }}
+            />
+            <YAxis tick={{ fontSize: 12, fill: '#6b7280' }} tickFormatter={format} />
+            <Tooltip
+              formatter={(value) => format(Number(value))}
+              labelFormatter={(time) => `t = ${time}`}
+            />
+            <Legend />
+            <ReferenceLine y={0} stroke="#9ca3af" />
+            {tracking.processes.map((share) => (
+              <Line
+                key={share.pid}
+                type="linear"
+                dataKey={share.pid}
+                stroke={getProcessHexColor(share.pid, allPids)}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+        Received minus entitled CPU time so far. Lottery drifts randomly around 0; stride stays
+        within about one quantum.
+      </p>
+    </motion.div>
+  );
+}
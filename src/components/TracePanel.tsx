@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown, ListTree } from 'lucide-react';
+import type { TraceEvent, TraceEventType } from '../types';
+import { queuedJobs } from '../lib/scheduler';
+import { jobId } from '../lib/realtime';
+import { getProcessColor } from '../lib/colors';
+
+interface TracePanelProps {
+  events: TraceEvent[];
+  allPids: string[];
+}
+
+const EVENT_STYLES: Record<TraceEventType, { label: string; className: string }> = {
+  arrival: {
+    label: 'Arrival',
+    className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  },
+  dispatch: {
+    label: 'Dispatch',
+    className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+  },
+  preempt: {
+    label: 'Preempt',
+    className: 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400',
+  },
+  'quantum-expire': {
+    label: 'Quantum Expired',
+    className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  },
+  'io-block': {
+    label: 'I/O Start',
+    className: 'bg-cyan-100 text-cyan-700 dark:bg-cyan-900/30 dark:text-cyan-400',
+  },
+  'io-return': {
+    label: 'I/O Done',
+    className: 'bg-cyan-100 text-cyan-700 dark:bg-cyan-900/30 dark:text-cyan-400',
+  },
+  complete: {
+    label: 'Complete',
+    className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  },
+};
+
+export function TracePanel({ events, allPids }: TracePanelProps) {
+  const [open, setOpen] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<TraceEventType | 'all'>('all');
+
+  const multiCore = events.some((e) => e.core !== undefined);
+  const visible = typeFilter === 'all' ? events : events.filter((e) => e.type === typeFilter);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.45 }}
+      className="card overflow-hidden"
+    >
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full p-4 flex items-center justify-between text-left"
+        aria-expanded={open}
+      >
+        <div className="flex items-center gap-2">
+          <ListTree className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Trace</h2>
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {events.length} events
+          </span>
+        </div>
+        <ChevronDown
+          className={`w-5 h-5 text-gray-400 transition-transform ${open ? 'rotate-180' : ''}`}
+        />
+      </button>
+
+      <AnimatePresence initial={false}>
+        {open && (
+          <motion.div
+            initial={{ height: 0 }}
+            animate={{ height: 'auto' }}
+            exit={{ height: 0 }}
+            className="overflow-hidden border-t border-gray-200 dark:border-gray-700"
+          >
+            <div className="p-4 flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Every scheduling decision, with the ready queue right after it (next pick first)
+              </p>
+              <select
+                aria-label="Filter events"
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value as TraceEventType | 'all')}
+                className="select w-44 py-1 text-sm"
+              >
+                <option value="all">All events</option>
+                {(Object.keys(EVENT_STYLES) as TraceEventType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {EVENT_STYLES[type].label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="max-h-96 overflow-auto">
+              <table className="w-full">
+                <thead className="sticky top-0 bg-white dark:bg-gray-800">
+                  <tr>
+                    <th className="table-header">Time</th>
+                    <th className="table-header">Event</th>
+                    <th className="table-header">Process</th>
+                    {multiCore && <th className="table-header">Core</th>}
+                    <th className="table-header">Ready Queue</th>
+                    <th className="table-header">Detail</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map((event, index) => {
+                    const style = EVENT_STYLES[event.type];
+                    return (
+                      <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                        <td className="table-cell font-mono">{event.time}</td>
+                        <td className="table-cell">
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${style.className}`}>
+                            {style.label}
+                          </span>
+                        </td>
+                        <td className="table-cell">
+                          <span className="flex items-center gap-2 font-mono font-medium text-gray-900 dark:text-white">
+                            <span
+                              className={`w-2.5 h-2.5 rounded-full ${getProcessColor(event.pid, allPids).bg}`}
+                            />
+                            {event.pid}
+                          </span>
+                        </td>
+                        {multiCore && (
+                          <td className="table-cell font-mono">
+                            {event.core !== undefined ? `CPU${event.core}` : '-'}
+                          </td>
+                        )}
+                        <td className="table-cell">
+                          {event.readyQueue.length === 0 ? (
+                            <span className="text-gray-400 dark:text-gray-500">empty</span>
+                          ) : (
+                            <div className="flex flex-wrap gap-1">
+                              {queuedJobs(event).map((entry) => (
+                                <span
+                                  key={jobId(entry)}
+                                  className="px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 font-mono text-xs"
+                                >
+                                  {entry.pid}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                        <td className="table-cell text-xs text-gray-500 dark:text-gray-400">
+                          {event.detail ?? ''}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+}
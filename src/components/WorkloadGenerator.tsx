@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Dices, Shuffle, X, ChevronDown } from 'lucide-react';
+import type { BurstDistribution, Process, WorkloadConfig } from '../types';
+import { generateWorkload, DEFAULT_WORKLOAD_CONFIG } from '../lib/workload';
+
+interface WorkloadGeneratorProps {
+  open: boolean;
+  onClose: () => void;
+  onGenerate: (processes: Process[]) => void;
+}
+
+const MAX_PROCESSES = 500;
+
+const DEFAULT_BURSTS: Record<BurstDistribution['kind'], BurstDistribution> = {
+  exponential: { kind: 'exponential', mean: 5 },
+  uniform: { kind: 'uniform', min: 1, max: 10 },
+  bimodal: { kind: 'bimodal', shortMean: 2, longMean: 15, longFraction: 0.2 },
+};
+
+export function WorkloadGenerator({ open, onClose, onGenerate }: WorkloadGeneratorProps) {
+  const [config, setConfig] = useState<WorkloadConfig>(DEFAULT_WORKLOAD_CONFIG);
+
+  const update = (changes: Partial<WorkloadConfig>) => setConfig({ ...config, ...changes });
+  const updateBurst = (changes: Partial<BurstDistribution>) =>
+    setConfig({ ...config, burst: { ...config.burst, ...changes } as BurstDistribution });
+
+  // Whole numbers for counts and seeds, non-negative decimals for rates and means
+  const int = (value: string, min: number) => Math.max(min, parseInt(value, 10) || min);
+  const positive = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+  const handleGenerate = () => {
+    onGenerate(generateWorkload(config));
+    onClose();
+  };
+
+  const { burst } = config;
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-40 flex items-center justify-center p-4 bg-black/40"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="card w-full max-w-lg p-6"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="workload-generator-title"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h2
+                id="workload-generator-title"
+                className="text-lg font-semibold text-gray-900 dark:text-white"
+              >
+                Generate Workload
+              </h2>
+              <button
+                onClick={onClose}
+                className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                aria-label="Close"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <label htmlFor="gen-count" className="label">
+                  Processes
+                </label>
+                <input
+                  id="gen-count"
+                  type="number"
+                  min="1"
+                  max={MAX_PROCESSES}
+                  value={config.count}
+                  onChange={(e) =>
+                    update({ count: Math.min(MAX_PROCESSES, int(e.target.value, 1)) })
+                  }
+                  className="input"
+                />
+              </div>
+              <div>
+                <label htmlFor="gen-rate" className="label">
+                  Arrival Rate (λ)
+                </label>
+                <input
+                  id="gen-rate"
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={config.arrivalRate}
+                  onChange={(e) => update({ arrivalRate: positive(e.target.value) })}
+                  className="input"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {config.arrivalRate > 0
+                    ? `Poisson arrivals, one every ${(1 / config.arrivalRate).toFixed(1)} units on average`
+                    : 'All processes arrive at time 0'}
+                </p>
+              </div>
+
+              <div className="sm:col-span-2">
+                <label htmlFor="gen-burst" className="label">
+                  Burst Distribution
+                </label>
+                <div className="relative">
+                  <select
+                    id="gen-burst"
+                    value={burst.kind}
+                    onChange={(e) =>
+                      update({ burst: DEFAULT_BURSTS[e.target.value as BurstDistribution['kind']] })
+                    }
+                    className="select pr-10"
+                  >
+                    <option value="exponential">Exponential</option>
+                    <option value="uniform">Uniform</option>
+                    <option value="bimodal">Bimodal (short + long jobs)</option>
+                  </select>
+                  <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+                </div>
+              </div>
+
+              {burst.kind === 'exponential' && (
+                <div>
+                  <label htmlFor="gen-mean" className="label">
+                    Mean Burst
+                  </label>
+                  <input
+                    id="gen-mean"
+                    type="number"
+                    min="1"
+                    value={burst.mean}
+                    onChange={(e) => updateBurst({ mean: positive(e.target.value) })}
+                    className="input"
+                  />
+                </div>
+              )}
+              {burst.kind === 'uniform' && (
+                <>
+                  <div>
+                    <label htmlFor="gen-min" className="label">
+                      Min Burst
+                    </label>
+                    <input
+                      id="gen-min"
+                      type="number"
+                      min="1"
+                      value={burst.min}
+                      onChange={(e) => updateBurst({ min: int(e.target.value, 1) })}
+                      className="input"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="gen-max" className="label">
+                      Max Burst
+                    </label>
+                    <input
+                      id="gen-max"
+                      type="number"
+                      min="1"
+                      value={burst.max}
+                      onChange={(e) => updateBurst({ max: int(e.target.value, 1) })}
+                      className="input"
+                    />
+                  </div>
+                </>
+              )}
+              {burst.kind === 'bimodal' && (
+                <>
+                  <div>
+                    <label htmlFor="gen-short" className="label">
+                      Short Job Mean
+                    </label>
+                    <input
+                      id="gen-short"
+                      type="number"
+                      min="1"
+                      value={burst.shortMean}
+                      onChange={(e) => updateBurst({ shortMean: positive(e.target.value) })}
+                      className="input"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="gen-long" className="label">
+                      Long Job Mean
+                    </label>
+                    <input
+                      id="gen-long"
+                      type="number"
+                      min="1"
+                      value={burst.longMean}
+                      onChange={(e) => updateBurst({ longMean: positive(e.target.value) })}
+                      className="input"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="gen-fraction" className="label">
+                      Long Jobs (%)
+                    </label>
+                    <input
+                      id="gen-fraction"
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={Math.round(burst.longFraction * 100)}
+                      onChange={(e) =>
+                        updateBurst({
+                          longFraction: Math.min(100, int(e.target.value, 0)) / 100,
+                        })
+                      }
+                      className="input"
+                    />
+                  </div>
+                </>
+              )}
+
+              <div>
+                <label htmlFor="gen-priority-min" className="label">
+                  Priority From
+                </label>
+                <input
+                  id="gen-priority-min"
+                  type="number"
+                  min="0"
+                  value={config.priorityMin}
+                  onChange={(e) => update({ priorityMin: int(e.target.value, 0) })}
+                  className="input"
+                />
+              </div>
+              <div>
+                <label htmlFor="gen-priority-max" className="label">
+                  Priority To
+                </label>
+                <input
+                  id="gen-priority-max"
+                  type="number"
+                  min="0"
+                  value={config.priorityMax}
+                  onChange={(e) => update({ priorityMax: int(e.target.value, 0) })}
+                  className="input"
+                />
+              </div>
+
+              <div className="sm:col-span-2">
+                <label htmlFor="gen-seed" className="label">
+                  Seed
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    id="gen-seed"
+                    type="number"
+                    min="0"
+                    value={config.seed}
+                    onChange={(e) => update({ seed: int(e.target.value, 0) })}
+                    className="input"
+                  />
+                  <button
+                    onClick={() => update({ seed: Math.floor(Math.random() * 1_000_000) })}
+                    className="btn-secondary px-3"
+                    title="Pick a random seed"
+                    aria-label="Pick a random seed"
+                  >
+                    <Shuffle className="w-4 h-4" />
+                  </button>
+                </div>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  The same settings and seed always produce the same processes
+                </p>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 mt-6">
+              <button onClick={onClose} className="btn-secondary text-sm">
+                Cancel
+              </button>
+              <button
+                onClick={handleGenerate}
+                className="btn-primary flex items-center gap-2 text-sm"
+              >
+                <Dices className="w-4 h-4" />
+                Generate
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -4,3 +4,10 @@ export { Controls } from './Controls';
 export { GanttChart } from './GanttChart';
 export { MetricsCards } from './MetricsCards';
 export { ResultsTable } from './ResultsTable';
+export { ComparisonView } from './ComparisonView';
+export { ScenarioLibrary } from './ScenarioLibrary';
+export { TracePanel } from './TracePanel';
+export { ReportView } from './ReportView';
+export { ShareTrackingView } from './ShareTrackingView';
+export { RealTimeView } from './RealTimeView';
+export { PredictionView } from './PredictionView';
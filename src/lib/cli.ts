@@ -0,0 +1,333 @@
+import { simulateSchedule, ALGORITHMS, getAlgorithm } from "./scheduler"
+import { parseProcessFile } from "./processFiles"
+import { formatNumber } from "./report"
+import type { Algorithm, GanttSegment, SimulationResult } from "../types"
+
+/**
+ * How results are printed
+ */
+export type OutputFormat = "table" | "json" | "csv"
+
+/**
+ * One algorithm's run over the workload
+ */
+interface Run {
+  algorithm: Algorithm
+  result: SimulationResult
+}
+
+/**
+ * Parsed command line
+ */
+export interface CliOptions {
+  file: string
+  algorithms: Algorithm[] // empty: the file's algorithm, or FCFS
+  quantum?: number
+  format: OutputFormat
+  cores?: number
+}
+
+/**
+ * What a run printed and how it ended (0 ok, 1 bad workload, 2 bad usage)
+ */
+export interface CliResult {
+  stdout: string
+  stderr: string
+  exitCode: number
+}
+
+export const USAGE = `Usage: npm run cli -- <file.csv|file.json|-> [options]
+
+Options:
+  -a, --algorithm <id>   Algorithm to run (${ALGORITHMS.map((a) => a.id).join(", ")})
+  -q, --quantum <n>      Round Robin time quantum (default: from the file, or 2)
+      --all              Run every algorithm and compare them
+  -f, --format <format>  table (default, with an ASCII Gantt chart), json or csv
+      --cores <n>        Number of CPUs (default 1)
+  -h, --help             Show this help
+
+Reads the workload from stdin when the file is "-".`
+
+/**
+ * Parse command line arguments; throws an Error with a message for bad usage
+ */
+export function parseArgs(args: string[]): CliOptions | "help" {
+  const options: CliOptions = { file: "", algorithms: [], format: "table" }
+  let all = false
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    const value = () => {
+      const next = args[++i]
+      if (next === undefined) throw new Error(`${arg} needs a value`)
+      return next
+    }
+
+    switch (arg) {
+      case "-h":
+      case "--help":
+        return "help"
+      case "-a":
+      case "--algorithm":
+        options.algorithms.push(findAlgorithm(value()))
+        break
+      case "-q":
+      case "--quantum":
+        options.quantum = positiveNumber(value(), "Quantum")
+        break
+      case "--all":
+        all = true
+        break
+      case "-f":
+      case "--format": {
+        const format = value()
+        if (format !== "table" && format !== "json" && format !== "csv") {
+          throw new Error(`Unknown format: ${format} (expected table, json or csv)`)
+        }
+        options.format = format
+        break
+      }
+      case "--cores":
+        options.cores = Math.floor(positiveNumber(value(), "Cores"))
+        break
+      default:
+        if (arg.startsWith("-") && arg !== "-") throw new Error(`Unknown option: ${arg}`)
+        if (options.file !== "") throw new Error(`Unexpected argument: ${arg}`)
+        options.file = arg
+    }
+  }
+
+  if (options.file === "") throw new Error("No workload file given")
+  if (all) options.algorithms = ALGORITHMS.map((a) => a.id)
+  return options
+}
+
+/**
+ * Run the CLI on `args`, reading the workload with `readFile`
+ */
+export function runCli(args: string[], readFile: (path: string) => string): CliResult {
+  let options: CliOptions | "help"
+  try {
+    options = parseArgs(args)
+  } catch (error) {
+    return { stdout: "", stderr: `${(error as Error).message}\n\n${USAGE}\n`, exitCode: 2 }
+  }
+  if (options === "help") return { stdout: `${USAGE}\n`, stderr: "", exitCode: 0 }
+
+  let text: string
+  try {
+    text = readFile(options.file)
+  } catch (error) {
+    const message = `Cannot read ${options.file}: ${(error as Error).message}\n`
+    return { stdout: "", stderr: message, exitCode: 1 }
+  }
+
+  const workload = parseProcessFile(options.file, text)
+  if (workload.errors.length > 0) {
+    return { stdout: "", stderr: workload.errors.map((e) => `${e}\n`).join(""), exitCode: 1 }
+  }
+
+  const quantum = options.quantum ?? workload.quantum ?? 2
+  const algorithms =
+    options.algorithms.length > 0 ? options.algorithms : [workload.algorithm ?? "FCFS"]
+  const runs: Run[] = algorithms.map((algorithm) => ({
+    algorithm,
+    result: simulateSchedule(workload.processes, algorithm, quantum, { cores: options.cores })
+  }))
+
+  const output =
+    options.format === "json"
+      ? formatJSON(runs, quantum)
+      : options.format === "csv"
+        ? formatCSV(runs)
+        : formatReport(runs, quantum)
+  return { stdout: output, stderr: "", exitCode: 0 }
+}
+
+/**
+ * Draw the Gantt chart as text, one lane per core. Segments are at least
+ * wide enough for their label; longer ones grow with their duration.
+ */
+export function formatGantt(segments: GanttSegment[], maxWidth = 80): string {
+  const totalTime = segments.reduce((max, s) => Math.max(max, s.end), 0)
+  if (totalTime === 0) return ""
+  const coreCount = segments.reduce((max, s) => Math.max(max, (s.core ?? 0) + 1), 1)
+  const scale = Math.min(4, maxWidth / totalTime)
+
+  const lanes: string[] = []
+  for (let core = 0; core < coreCount; core++) {
+    // Fill gaps so every lane covers the whole run
+    const pieces: { label: string; start: number; end: number }[] = []
+    let time = 0
+    for (const segment of segments.filter((s) => (s.core ?? 0) === core)) {
+      if (segment.start > time) pieces.push({ label: "idle", start: time, end: segment.start })
+      const label = segment.kind === "switch" ? "CS" : (segment.pid ?? "idle")
+      pieces.push({ label, start: segment.start, end: segment.end })
+      time = segment.end
+    }
+    if (time < totalTime) pieces.push({ label: "idle", start: time, end: totalTime })
+
+    const widths = pieces.map((p) =>
+      Math.max(p.label.length + 2, Math.round((p.end - p.start) * scale))
+    )
+    const border = "+" + widths.map((w) => "-".repeat(w)).join("+") + "+"
+    const labels =
+      "|" + pieces.map((p, i) => center(p.label, widths[i])).join("|") + "|"
+
+    // Time under each boundary, skipped where it would run into the previous one
+    let axis = ""
+    let column = 0
+    pieces.forEach((piece, i) => {
+      if (i === 0) axis = formatNumber(piece.start)
+      column += widths[i] + 1
+      const mark = formatNumber(piece.end)
+      if (column > axis.length) axis = axis.padEnd(column) + mark
+    })
+
+    const prefix = coreCount > 1 ? `CPU${core} ` : ""
+    const indent = " ".repeat(prefix.length)
+    lanes.push(
+      [indent + border, prefix + labels, indent + border, indent + axis].join("\n")
+    )
+  }
+  return lanes.join("\n\n") + "\n"
+}
+
+/**
+ * Human-readable report: per algorithm a Gantt chart and metrics table,
+ * followed by a comparison when several algorithms ran
+ */
+function formatReport(runs: Run[], quantum: number): string {
+  const sections = runs.map(({ algorithm, result }) => {
+    const metrics = formatTable(
+      ["PID", "Arrival", "Burst", "Priority", "Completion", "Turnaround", "Waiting", "Response"],
+      result.processMetrics.map((m) => [
+        m.pid,
+        m.arrivalTime,
+        m.burstTime,
+        m.priority,
+        m.completionTime,
+        m.turnaroundTime,
+        m.waitingTime,
+        m.responseTime
+      ])
+    )
+    const averages = [
+      `Average waiting time:    ${formatNumber(result.averageWaitingTime)}`,
+      `Average turnaround time: ${formatNumber(result.averageTurnaroundTime)}`,
+      `Average response time:   ${formatNumber(result.averageResponseTime)}`,
+      `CPU utilization:         ${formatNumber(result.cpuUtilization)}%`,
+      `Context switches:        ${result.contextSwitches}`
+    ].join("\n")
+    const gantt = formatGantt(result.ganttChart)
+    return `== ${title(algorithm, quantum)} ==\n\n${gantt}\n${metrics}\n${averages}\n`
+  })
+
+  if (runs.length > 1) {
+    const comparison = formatTable(
+      ["Algorithm", "Avg Waiting", "Avg Turnaround", "Avg Response", "CPU %", "Switches"],
+      runs.map(({ algorithm, result }) => [
+        getAlgorithm(algorithm).shortLabel,
+        result.averageWaitingTime,
+        result.averageTurnaroundTime,
+        result.averageResponseTime,
+        result.cpuUtilization,
+        result.contextSwitches
+      ])
+    )
+    sections.push(`== Comparison ==\n\n${comparison}`)
+  }
+  return sections.join("\n")
+}
+
+/**
+ * One JSON document with the full result of every run
+ */
+function formatJSON(runs: Run[], quantum: number): string {
+  const output = runs.map(({ algorithm, result }) => ({
+    algorithm,
+    ...(usesQuantum(algorithm) ? { quantum } : {}),
+    ...result
+  }))
+  return JSON.stringify(output, null, 2) + "\n"
+}
+
+/**
+ * Per-process metrics as CSV, one row per algorithm and process
+ */
+function formatCSV(runs: Run[]): string {
+  const header =
+    "algorithm,pid,arrival,burst,priority,completion,turnaround,waiting,response"
+  const rows = runs.flatMap(({ algorithm, result }) =>
+    result.processMetrics.map((m) =>
+      [
+        algorithm,
+        /[",\n]/.test(m.pid) ? `"${m.pid.replace(/"/g, '""')}"` : m.pid,
+        m.arrivalTime,
+        m.burstTime,
+        m.priority,
+        m.completionTime,
+        m.turnaroundTime,
+        m.waitingTime,
+        m.responseTime
+      ].join(",")
+    )
+  )
+  return [header, ...rows].join("\n") + "\n"
+}
+
+/**
+ * Column-aligned text table; numbers are right-aligned
+ */
+function formatTable(headers: string[], rows: (string | number)[][]): string {
+  const cells = rows.map((row) =>
+    row.map((cell) => (typeof cell === "number" ? formatNumber(cell) : cell))
+  )
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...cells.map((row) => row[i].length))
+  )
+  const line = (row: string[], numeric: boolean[]) =>
+    row
+      .map((cell, i) => (numeric[i] ? cell.padStart(widths[i]) : cell.padEnd(widths[i])))
+      .join("  ")
+      .trimEnd()
+
+  const numeric = rows[0]?.map((cell) => typeof cell === "number") ?? []
+  return [
+    line(headers, numeric),
+    widths.map((w) => "-".repeat(w)).join("  "),
+    ...cells.map((row) => line(row, numeric))
+  ].join("\n") + "\n"
+}
+
+/**
+ * Match an algorithm by id or short label, ignoring case
+ */
+function findAlgorithm(name: string): Algorithm {
+  const wanted = name.toLowerCase()
+  const match = ALGORITHMS.find(
+    (a) => a.id.toLowerCase() === wanted || a.shortLabel.toLowerCase() === wanted
+  )
+  if (!match) throw new Error(`Unknown algorithm: ${name}`)
+  return match.id
+}
+
+function positiveNumber(text: string, name: string): number {
+  const value = Number(text)
+  if (!Number.isFinite(value) || value < 1) throw new Error(`${name} must be a number >= 1`)
+  return value
+}
+
+function usesQuantum(algorithm: Algorithm): boolean {
+  return getAlgorithm(algorithm).params.some((p) => p.name === "quantum")
+}
+
+function title(algorithm: Algorithm, quantum: number): string {
+  const { label } = getAlgorithm(algorithm)
+  return usesQuantum(algorithm) ? `${label}, quantum ${quantum}` : label
+}
+
+function center(text: string, width: number): string {
+  const left = Math.floor((width - text.length) / 2)
+  return text.padStart(text.length + left).padEnd(width)
+}
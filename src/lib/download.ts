@@ -0,0 +1,18 @@
+/**
+ * Save a blob as a file through a temporary download link
+ */
+export function downloadBlob(fileName: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Save text as a file
+ */
+export function downloadFile(fileName: string, content: string, type: string): void {
+  downloadBlob(fileName, new Blob([content], { type }))
+}
@@ -0,0 +1,465 @@
+import type { Process, GanttSegment, QueueMode, TraceEvent, TraceEventType } from "../types"
+
+/**
+ * A process as seen by the simulation engine
+ */
+export interface SimProcess extends Process {
+  bursts: number[] // CPU/IO sequence, see burstSequence()
+  burstIndex: number // index of the current CPU burst in `bursts`
+  cpuBurst: number // length of the current CPU burst
+  remainingBurst: number // time left in the current CPU burst
+}
+
+/**
+ * A scheduling policy plugged into the engine.
+ * The engine owns time, arrivals, context switches and the Gantt chart;
+ * the policy only decides which ready process runs and for how long.
+ */
+export interface SchedulingPolicy {
+  /** Whether a newly ready process may take the CPU from the running one */
+  preemptive: boolean
+  /**
+   * Ordering of the ready queue (negative = `a` runs first).
+   * Ties keep queue order, so omitting it gives a plain FIFO queue.
+   */
+  compare?: (a: SimProcess, b: SimProcess, now: number) => number
+  /**
+   * Whether `compare` never changes its verdict on two processes while both
+   * wait (e.g. SJF, but not HRRN or aging). The engine then keeps the ready
+   * queues sorted as processes join them, instead of sorting them again for
+   * every choice and trace event. `onEvent` must not reorder the queues.
+   */
+  sortedQueue?: boolean
+  /**
+   * Pick the next process from the ready processes that may run on the core,
+   * for policies that do not order the queue (e.g. a lottery draw). Takes
+   * precedence over `compare` when choosing; never called with an empty list.
+   * Candidates come in queue order, so with `sortedQueue` the first is the
+   * best by `compare`.
+   */
+  select?: (candidates: SimProcess[], now: number) => SimProcess
+  /** Time `proc` may still run before its slice expires (default: unlimited) */
+  sliceLeft?: (proc: SimProcess) => number
+  /** Called when `proc` enters a ready queue (arrival, I/O return, preemption, expiry) */
+  onReady?: (proc: SimProcess, now: number) => void
+  /** Called when `proc` is given the CPU */
+  onDispatch?: (proc: SimProcess, now: number) => void
+  /** Called after `proc` ran for `duration` time units */
+  onRun?: (proc: SimProcess, duration: number) => void
+  /** Called when `proc` used up its slice and is about to be requeued */
+  onExpire?: (proc: SimProcess) => void
+  /** Note attached to the Gantt segment of a dispatch, e.g. the priority it was picked with */
+  describeDispatch?: (proc: SimProcess, now: number) => string | undefined
+  /**
+   * Next time after `now` at which the policy wants to act (default: never).
+   * Asked again at every decision point.
+   */
+  nextEventTime?: (now: number) => number
+  /** Policy event (e.g. MLFQ priority boost); may reorder the ready queues in place */
+  onEvent?: (now: number, readyQueues: SimProcess[][]) => void
+}
+
+/**
+ * Engine settings shared by every policy
+ */
+export interface EngineOptions {
+  contextSwitchCost: number
+  cores: number
+  queueMode: QueueMode
+}
+
+/**
+ * State of a single CPU core
+ */
+interface CoreState {
+  index: number
+  ready: SimProcess[] // shared by every core with a global queue
+  running: SimProcess | null
+  expired: SimProcess | null // slice just expired, requeued after arrivals
+  lastPid: string | null // last process this core ran (for context switches)
+  switchLeft: number
+  freshDispatch: boolean
+  lastSegment: GanttSegment | null
+  pendingDetail: string | undefined // describeDispatch() note for the next run segment
+  assigned: number // unfinished processes homed here (per-core queues)
+}
+
+/**
+ * Timelines produced by a simulation run
+ */
+export interface EngineResult {
+  ganttChart: GanttSegment[]
+  ioChart: GanttSegment[]
+  events: TraceEvent[]
+}
+
+// Time left below this counts as none, so fractional slices cannot stall the clock
+const EPSILON = 1e-9
+
+/**
+ * Alternating CPU/IO burst lengths of a process, starting and ending with CPU.
+ * A process without an explicit sequence is a single CPU burst.
+ */
+export function burstSequence(proc: Process): number[] {
+  return proc.bursts && proc.bursts.length > 0 ? proc.bursts : [proc.burstTime]
+}
+
+/**
+ * Total CPU and I/O time of a burst sequence
+ */
+export function burstTotals(bursts: number[]): { cpu: number; io: number } {
+  let cpu = 0
+  let io = 0
+  bursts.forEach((length, i) => {
+    if (i % 2 === 0) cpu += length
+    else io += length
+  })
+  return { cpu, io }
+}
+
+/**
+ * Run a discrete-event simulation of `processes` under `policy`.
+ * Decision points are arrivals, I/O completions, CPU burst completions, slice
+ * expiries, the end of a context switch and policy events; in between, the
+ * state of every core is constant. I/O runs in parallel with the CPUs and
+ * other I/O.
+ */
+export function runSimulation(
+  processes: Process[],
+  policy: SchedulingPolicy,
+  { contextSwitchCost, cores: coreCount, queueMode }: EngineOptions
+): EngineResult {
+  const gantt: GanttSegment[] = []
+  const ioChart: GanttSegment[] = []
+  const events: TraceEvent[] = []
+
+  const allProcesses: SimProcess[] = processes
+    .map((p) => {
+      const bursts = burstSequence(p)
+      // Affinity naming no existing core means "any core"
+      const affinity = p.affinity?.filter((core) => core >= 0 && core < coreCount)
+      return {
+        ...p,
+        affinity: affinity && affinity.length > 0 ? affinity : undefined,
+        bursts,
+        burstIndex: 0,
+        cpuBurst: bursts[0],
+        remainingBurst: bursts[0]
+      }
+    })
+    .sort((a, b) => {
+      if (a.arrivalTime !== b.arrivalTime) {
+        return a.arrivalTime - b.arrivalTime
+      }
+      return a.insertionOrder - b.insertionOrder
+    })
+
+  const n = allProcesses.length
+  const multiCore = coreCount > 1
+  // Jobs of a periodic task share its PID, so the trace also names the job
+  const withJobs = allProcesses.some((p) => p.job !== undefined)
+  const globalQueue: SimProcess[] = []
+  const cores: CoreState[] = Array.from({ length: coreCount }, (_, index) => ({
+    index,
+    ready: queueMode === "per-core" ? [] : globalQueue,
+    running: null,
+    expired: null,
+    lastPid: null,
+    switchLeft: 0,
+    freshDispatch: false,
+    lastSegment: null,
+    pendingDetail: undefined,
+    assigned: 0
+  }))
+  const readyQueues = queueMode === "per-core" ? cores.map((c) => c.ready) : [globalQueue]
+  // Home core of each process in per-core mode
+  const homeCore = new Map<SimProcess, CoreState>()
+
+  // Processes doing I/O, ordered by the time they become ready again
+  const blocked: { proc: SimProcess; until: number }[] = []
+  let processIndex = 0
+  let completed = 0
+  let currentTime = 0
+  let nextPolicyEvent = Infinity
+
+  const sliceLeft = (proc: SimProcess) => policy.sliceLeft?.(proc) ?? Infinity
+
+  const canRunOn = (proc: SimProcess, core: CoreState) =>
+    !proc.affinity || proc.affinity.length === 0 || proc.affinity.includes(core.index)
+
+  const sorted = Boolean(policy.sortedQueue && policy.compare)
+
+  // Join a queue at the back, or with `sortedQueue` after everything that runs
+  // first or ties with it, which is where a stable sort would put it
+  const enqueue = (queue: SimProcess[], proc: SimProcess) => {
+    if (!sorted) {
+      queue.push(proc)
+      return
+    }
+    let low = 0
+    let high = queue.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (policy.compare!(proc, queue[mid], currentTime) < 0) high = mid
+      else low = mid + 1
+    }
+    queue.splice(low, 0, proc)
+  }
+
+  // Per-core queues: a process stays on the least loaded core it may run on
+  const makeReady = (proc: SimProcess) => {
+    policy.onReady?.(proc, currentTime)
+    if (queueMode !== "per-core") {
+      enqueue(globalQueue, proc)
+      return
+    }
+    let home = homeCore.get(proc)
+    if (!home) {
+      home = cores.filter((core) => canRunOn(proc, core)).reduce((best, core) =>
+        core.assigned < best.assigned ? core : best
+      )
+      home.assigned++
+      homeCore.set(proc, home)
+    }
+    enqueue(home.ready, proc)
+  }
+
+  // Ready queue `proc` waits in (or would wait in)
+  const queueOf = (proc: SimProcess) => homeCore.get(proc)?.ready ?? globalQueue
+
+  // Log an event with a snapshot of `queue` in the order the policy would pick from it
+  const record = (
+    type: TraceEventType,
+    proc: SimProcess,
+    queue: SimProcess[],
+    core?: CoreState,
+    detail?: string
+  ) => {
+    const snapshot =
+      policy.compare && !sorted
+        ? [...queue].sort((a, b) => policy.compare!(a, b, currentTime))
+        : queue
+    const event: TraceEvent = {
+      time: currentTime,
+      type,
+      pid: proc.pid,
+      readyQueue: snapshot.map((p) => p.pid)
+    }
+    if (proc.job !== undefined) event.job = proc.job
+    if (withJobs) event.readyJobs = snapshot.map((p) => p.job ?? null)
+    if (multiCore && core) event.core = core.index
+    if (detail !== undefined) event.detail = detail
+    events.push(event)
+  }
+
+  // Index of the process `core` should run next (first best wins ties), or -1
+  const selectIndex = (core: CoreState): number => {
+    if (policy.select) {
+      const candidates = core.ready.filter((proc) => canRunOn(proc, core))
+      if (candidates.length === 0) return -1
+      return core.ready.indexOf(policy.select(candidates, currentTime))
+    }
+    let best = -1
+    for (let i = 0; i < core.ready.length; i++) {
+      const proc = core.ready[i]
+      if (!canRunOn(proc, core)) continue
+      if (best === -1) {
+        best = i
+        if (!policy.compare || sorted) break
+      } else if (policy.compare!(proc, core.ready[best], currentTime) < 0) {
+        best = i
+      }
+    }
+    return best
+  }
+
+  const dispatch = (core: CoreState, index: number) => {
+    const proc = core.ready.splice(index, 1)[0]
+    policy.onDispatch?.(proc, currentTime)
+    core.pendingDetail = policy.describeDispatch?.(proc, currentTime)
+    record("dispatch", proc, core.ready, core, core.pendingDetail)
+    if (core.lastPid !== null && core.lastPid !== proc.pid && contextSwitchCost > 0) {
+      core.switchLeft = contextSwitchCost
+    }
+    core.running = proc
+    core.lastPid = proc.pid
+    core.freshDispatch = true
+  }
+
+  // Append a segment, extending the core's previous one when it simply continues
+  const emit = (
+    core: CoreState,
+    pid: string | null,
+    end: number,
+    kind?: GanttSegment["kind"],
+    fresh = false
+  ) => {
+    const last = core.lastSegment
+    if (
+      !fresh &&
+      last &&
+      last.pid === pid &&
+      last.kind === kind &&
+      last.end === currentTime
+    ) {
+      last.end = end
+      return
+    }
+    const segment: GanttSegment = { pid, start: currentTime, end }
+    if (kind) segment.kind = kind
+    if (multiCore) segment.core = core.index
+    if (pid !== null && core.pendingDetail !== undefined) {
+      segment.detail = core.pendingDetail
+      core.pendingDetail = undefined
+    }
+    gantt.push(segment)
+    core.lastSegment = segment
+  }
+
+  // Start the I/O burst that follows the current CPU burst
+  const block = (proc: SimProcess, core: CoreState) => {
+    const until = currentTime + proc.bursts[proc.burstIndex + 1]
+    ioChart.push({ pid: proc.pid, start: currentTime, end: until })
+    record("io-block", proc, core.ready, core, `I/O until ${until}`)
+
+    proc.burstIndex += 2
+    proc.cpuBurst = proc.bursts[proc.burstIndex]
+    proc.remainingBurst = proc.cpuBurst
+
+    let index = blocked.length
+    while (
+      index > 0 &&
+      (blocked[index - 1].until > until ||
+        (blocked[index - 1].until === until &&
+          blocked[index - 1].proc.insertionOrder > proc.insertionOrder))
+    ) {
+      index--
+    }
+    blocked.splice(index, 0, { proc, until })
+  }
+
+  while (completed < n) {
+    // Admit finished I/O, then arrivals, then expired processes (Round Robin order)
+    while (blocked.length > 0 && blocked[0].until <= currentTime) {
+      const proc = blocked.shift()!.proc
+      makeReady(proc)
+      record("io-return", proc, queueOf(proc), homeCore.get(proc))
+    }
+    while (processIndex < n && allProcesses[processIndex].arrivalTime <= currentTime) {
+      const proc = allProcesses[processIndex]
+      makeReady(proc)
+      record("arrival", proc, queueOf(proc), homeCore.get(proc))
+      processIndex++
+    }
+    for (const core of cores) {
+      if (core.expired) {
+        makeReady(core.expired)
+        core.expired = null
+      }
+    }
+
+    if (nextPolicyEvent <= currentTime) {
+      policy.onEvent?.(currentTime, readyQueues)
+    }
+
+    // Idle cores take work first
+    for (const core of cores) {
+      if (!core.running) {
+        const index = selectIndex(core)
+        if (index !== -1) dispatch(core, index)
+      }
+    }
+
+    // Then a better ready process preempts the worst running one it may replace.
+    // A dispatch is committed once its context switch has started.
+    if (policy.preemptive && policy.compare) {
+      const compare = policy.compare
+      for (;;) {
+        let victim: CoreState | null = null
+        let victimIndex = -1
+        for (const core of cores) {
+          if (!core.running || core.switchLeft > 0) continue
+          const index = selectIndex(core)
+          if (index === -1 || compare(core.ready[index], core.running, currentTime) >= 0) {
+            continue
+          }
+          if (!victim || compare(core.running, victim.running!, currentTime) > 0) {
+            victim = core
+            victimIndex = index
+          }
+        }
+        if (!victim) break
+
+        const candidate = victim.ready[victimIndex]
+        const preempted = victim.running!
+        victim.running = null
+        makeReady(preempted)
+        record("preempt", preempted, queueOf(preempted), victim, `by ${candidate.pid}`)
+        dispatch(victim, victim.ready.indexOf(candidate))
+      }
+    }
+
+    // Advance to the next decision point
+    nextPolicyEvent = policy.nextEventTime?.(currentTime) ?? Infinity
+    let nextTime = Math.min(
+      processIndex < n ? allProcesses[processIndex].arrivalTime : Infinity,
+      blocked.length > 0 ? blocked[0].until : Infinity,
+      nextPolicyEvent
+    )
+    for (const { running, switchLeft } of cores) {
+      if (!running) continue
+      nextTime = switchLeft > 0
+        ? Math.min(nextTime, currentTime + switchLeft)
+        : Math.min(
+          nextTime,
+          currentTime + running.remainingBurst,
+          currentTime + sliceLeft(running)
+        )
+    }
+
+    const duration = nextTime - currentTime
+
+    for (const core of cores) {
+      const running = core.running
+      if (!running) {
+        emit(core, null, nextTime)
+      } else if (core.switchLeft > 0) {
+        emit(core, null, nextTime, "switch", core.freshDispatch)
+        core.freshDispatch = false
+        core.switchLeft -= duration
+        if (core.switchLeft < EPSILON) core.switchLeft = 0
+      } else if (duration > 0) {
+        emit(core, running.pid, nextTime, undefined, core.freshDispatch)
+        core.freshDispatch = false
+        running.remainingBurst -= duration
+        if (running.remainingBurst < EPSILON) running.remainingBurst = 0
+        policy.onRun?.(running, duration)
+      }
+    }
+
+    currentTime = nextTime
+
+    for (const core of cores) {
+      const running = core.running
+      if (!running || core.switchLeft > 0) continue
+      if (running.remainingBurst === 0) {
+        core.running = null
+        if (running.burstIndex + 1 < running.bursts.length) {
+          block(running, core)
+        } else {
+          completed++
+          const home = homeCore.get(running)
+          if (home) home.assigned--
+          record("complete", running, core.ready, core)
+        }
+      } else if (sliceLeft(running) < EPSILON) {
+        policy.onExpire?.(running)
+        core.expired = running
+        core.running = null
+        record("quantum-expire", running, core.ready, core)
+      }
+    }
+  }
+
+  return { ganttChart: gantt, ioChart, events }
+}
@@ -0,0 +1,87 @@
+import { processLanes } from "./swimlanes"
+import type { SimulationResult } from "../types"
+
+/**
+ * Playback speed multipliers offered for the Gantt animation
+ */
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4, 8]
+
+/**
+ * Metrics of a run as they stand at time `time` of the playback
+ */
+export interface PartialMetrics {
+  time: number
+  arrived: number
+  completed: number
+  total: number
+  averageWaitingTime: number // ready-queue time so far, over the processes that have arrived
+  averageTurnaroundTime: number // over the processes that have completed
+  averageResponseTime: number // over the processes that have started
+  cpuUtilization: number // useful work so far, averaged over all cores
+  contextSwitches: number // switches started so far
+}
+
+// Times closer than this count as the same moment
+const EPSILON = 1e-9
+
+/**
+ * Metrics of `result` as seen at time `time`: only what has happened so far
+ * counts, so the averages settle on the final values once time reaches the end
+ */
+export function partialMetrics(result: SimulationResult, time: number): PartialMetrics {
+  const metrics = result.processMetrics
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+
+  const arrived = metrics.filter((m) => m.arrivalTime <= time + EPSILON)
+  const completed = metrics.filter((m) => m.completionTime <= time + EPSILON)
+  const started = metrics.filter((m) => m.arrivalTime + m.responseTime <= time + EPSILON)
+
+  // Waiting spans, cut off at `time`
+  const arrivedPids = new Set(arrived.map((m) => m.pid))
+  const waits = processLanes(metrics, result.ganttChart, result.ioChart)
+    .filter((lane) => arrivedPids.has(lane.pid))
+    .map((lane) =>
+      lane.spans
+        .filter((s) => s.state === "waiting" && s.start < time)
+        .reduce((sum, s) => sum + Math.min(s.end, time) - s.start, 0)
+    )
+
+  const cores = Math.max(1, result.coreUtilization.length)
+  const busyTime = result.ganttChart
+    .filter((s) => s.pid !== null && s.start < time)
+    .reduce((sum, s) => sum + Math.min(s.end, time) - s.start, 0)
+
+  return {
+    time,
+    arrived: arrived.length,
+    completed: completed.length,
+    total: metrics.length,
+    averageWaitingTime: average(waits),
+    averageTurnaroundTime: average(completed.map((m) => m.turnaroundTime)),
+    averageResponseTime: average(started.map((m) => m.responseTime)),
+    cpuUtilization: time > 0 ? (busyTime / (time * cores)) * 100 : 0,
+    contextSwitches: result.ganttChart.filter((s) => s.kind === "switch" && s.start < time)
+      .length
+  }
+}
+
+/**
+ * The first of `times` after `time`, if any
+ */
+export function nextStop(times: number[], time: number): number | undefined {
+  return times.reduce<number | undefined>(
+    (best, t) => (t > time + EPSILON && (best === undefined || t < best) ? t : best),
+    undefined
+  )
+}
+
+/**
+ * The last of `times` before `time`, if any
+ */
+export function previousStop(times: number[], time: number): number | undefined {
+  return times.reduce<number | undefined>(
+    (best, t) => (t < time - EPSILON && (best === undefined || t > best) ? t : best),
+    undefined
+  )
+}
@@ -0,0 +1,61 @@
+import { burstSequence } from "./engine"
+import { releaseJobs } from "./realtime"
+import type { Process } from "../types"
+
+/**
+ * One CPU burst of a process: what the predictor expected and what it took
+ */
+export interface BurstPrediction {
+  predicted: number // τ(n)
+  actual: number // t(n)
+  error: number // predicted - actual (positive = overestimated)
+}
+
+/**
+ * Every CPU burst prediction made for a process
+ */
+export interface ProcessPrediction {
+  pid: string
+  bursts: BurstPrediction[]
+  meanAbsoluteError: number
+}
+
+/**
+ * Exponential average of the last burst and the last prediction:
+ * τ(n+1) = α·t(n) + (1 - α)·τ(n)
+ */
+export function nextPrediction(alpha: number, actual: number, predicted: number): number {
+  return alpha * actual + (1 - alpha) * predicted
+}
+
+/**
+ * Predictions for every CPU burst of every process, starting from `tau0` and
+ * learning from each finished burst. A process's predictions depend only on
+ * its own bursts, not on the schedule. A periodic task learns across its jobs.
+ */
+export function burstPredictions(
+  processes: Process[],
+  alpha: number,
+  tau0: number
+): ProcessPrediction[] {
+  const bursts = new Map<string, number[]>()
+  for (const job of releaseJobs(processes)) {
+    const cpu = burstSequence(job).filter((_, i) => i % 2 === 0)
+    bursts.set(job.pid, [...(bursts.get(job.pid) ?? []), ...cpu])
+  }
+
+  return processes.map((p) => {
+    let predicted = tau0
+    const made = (bursts.get(p.pid) ?? []).map((actual) => {
+      const prediction = { predicted, actual, error: predicted - actual }
+      predicted = nextPrediction(alpha, actual, predicted)
+      return prediction
+    })
+    return {
+      pid: p.pid,
+      bursts: made,
+      meanAbsoluteError:
+        made.length > 0 ? made.reduce((sum, b) => sum + Math.abs(b.error), 0) / made.length : 0
+    }
+  })
+}
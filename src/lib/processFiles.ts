@@ -0,0 +1,362 @@
+import { validateProcess, parseNumberList, ALL_ALGORITHMS } from "./scheduler"
+import { burstTotals } from "./engine"
+import type { Process, Algorithm } from "../types"
+
+/**
+ * Version written by exportJSON(); older versions stay importable
+ */
+export const PROCESS_FILE_VERSION = 1
+
+const CSV_COLUMNS = ["pid", "arrival", "burst", "priority"] as const
+const CSV_OPTIONAL_COLUMNS = ["bursts", "affinity", "tickets", "period", "deadline"] as const
+
+/**
+ * Result of reading a process file. `processes` is only meant to replace the
+ * table when `errors` is empty.
+ */
+export interface ProcessFileResult {
+  processes: Process[]
+  algorithm?: Algorithm
+  quantum?: number
+  errors: string[]
+}
+
+/**
+ * Raw fields of one imported process, before validation
+ */
+interface ProcessFields {
+  pid: unknown
+  arrivalTime: unknown
+  burstTime: unknown
+  priority: unknown
+  bursts?: unknown
+  affinity?: unknown
+  tickets?: unknown
+  period?: unknown
+  deadline?: unknown
+}
+
+/**
+ * Serialize processes as CSV with `pid,arrival,burst,priority` columns.
+ * `bursts` and `affinity` columns (space-separated numbers) and `tickets`,
+ * `period` and `deadline` columns are added only when some process uses them.
+ */
+export function exportCSV(processes: Process[]): string {
+  const withBursts = processes.some((p) => p.bursts && p.bursts.length > 0)
+  const withAffinity = processes.some((p) => p.affinity && p.affinity.length > 0)
+  const withTickets = processes.some((p) => p.tickets !== undefined)
+  const withPeriod = processes.some((p) => p.period !== undefined)
+  const withDeadline = processes.some((p) => p.deadline !== undefined)
+
+  const header: string[] = [...CSV_COLUMNS]
+  if (withBursts) header.push("bursts")
+  if (withAffinity) header.push("affinity")
+  if (withTickets) header.push("tickets")
+  if (withPeriod) header.push("period")
+  if (withDeadline) header.push("deadline")
+
+  const rows = processes.map((p) => {
+    const row = [csvField(p.pid), p.arrivalTime, p.burstTime, p.priority].map(String)
+    if (withBursts) row.push(p.bursts?.join(" ") ?? "")
+    if (withAffinity) row.push(p.affinity?.join(" ") ?? "")
+    if (withTickets) row.push(p.tickets?.toString() ?? "")
+    if (withPeriod) row.push(p.period?.toString() ?? "")
+    if (withDeadline) row.push(p.deadline?.toString() ?? "")
+    return row.join(",")
+  })
+
+  return [header.join(","), ...rows].join("\n") + "\n"
+}
+
+/**
+ * The versioned JSON document written by exportJSON() and read by parseJSON()
+ */
+export function toProcessFile(processes: Process[], algorithm: Algorithm, quantum: number) {
+  return {
+    version: PROCESS_FILE_VERSION,
+    algorithm,
+    quantum,
+    processes: processes.map((p) => ({
+      pid: p.pid,
+      arrivalTime: p.arrivalTime,
+      burstTime: p.burstTime,
+      priority: p.priority,
+      ...(p.bursts && p.bursts.length > 0 ? { bursts: p.bursts } : {}),
+      ...(p.affinity && p.affinity.length > 0 ? { affinity: p.affinity } : {}),
+      ...(p.tickets !== undefined ? { tickets: p.tickets } : {}),
+      ...(p.period !== undefined ? { period: p.period } : {}),
+      ...(p.deadline !== undefined ? { deadline: p.deadline } : {})
+    }))
+  }
+}
+
+/**
+ * A versioned JSON process document
+ */
+export type ProcessFile = ReturnType<typeof toProcessFile>
+
+/**
+ * Serialize processes together with the algorithm settings
+ */
+export function exportJSON(processes: Process[], algorithm: Algorithm, quantum: number): string {
+  return JSON.stringify(toProcessFile(processes, algorithm, quantum), null, 2) + "\n"
+}
+
+/**
+ * Parse a CSV process list. The header row must name the `pid`, `arrival`,
+ * `burst` and `priority` columns (any order, case-insensitive). Errors are
+ * reported per line.
+ */
+export function parseCSV(text: string): ProcessFileResult {
+  const lines = text.split(/\r?\n/)
+  const headerIndex = lines.findIndex((line) => line.trim() !== "")
+  if (headerIndex === -1) {
+    return { processes: [], errors: ["File is empty"] }
+  }
+
+  const header = splitCSVLine(lines[headerIndex]).map((name) => name.toLowerCase())
+  const missing = CSV_COLUMNS.filter((name) => !header.includes(name))
+  if (missing.length > 0) {
+    return {
+      processes: [],
+      errors: [`Header is missing column(s): ${missing.join(", ")}`]
+    }
+  }
+
+  const column = (cells: string[], name: string) => {
+    const index = header.indexOf(name)
+    return index === -1 ? undefined : cells[index]
+  }
+
+  const rows: { label: string; fields: ProcessFields }[] = []
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (lines[i].trim() === "") continue
+    const cells = splitCSVLine(lines[i])
+    const optional = Object.fromEntries(
+      CSV_OPTIONAL_COLUMNS.map((name) => [name, column(cells, name) || undefined])
+    )
+    rows.push({
+      label: `Line ${i + 1}`,
+      fields: {
+        pid: column(cells, "pid"),
+        arrivalTime: column(cells, "arrival"),
+        burstTime: column(cells, "burst"),
+        priority: column(cells, "priority"),
+        ...optional
+      }
+    })
+  }
+
+  return buildProcesses(rows)
+}
+
+/**
+ * Parse a JSON process file written by exportJSON()
+ */
+export function parseJSON(text: string): ProcessFileResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { processes: [], errors: ["File is not valid JSON"] }
+  }
+  return readProcessFile(data)
+}
+
+/**
+ * Validate an already parsed process document (see toProcessFile()).
+ * With `validateRows` false only the document structure is checked: every row
+ * is kept as stored, invalid or duplicate ones included, for the table to flag.
+ */
+export function readProcessFile(data: unknown, validateRows = true): ProcessFileResult {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return { processes: [], errors: ["Expected a JSON object with a processes list"] }
+  }
+  const file = data as Record<string, unknown>
+
+  if (typeof file.version !== "number") {
+    return { processes: [], errors: ["File has no version number"] }
+  }
+  if (file.version > PROCESS_FILE_VERSION) {
+    return {
+      processes: [],
+      errors: [`Unsupported file version ${file.version} (newest known: ${PROCESS_FILE_VERSION})`]
+    }
+  }
+  if (!Array.isArray(file.processes)) {
+    return { processes: [], errors: ["File has no processes list"] }
+  }
+
+  const errors: string[] = []
+  let algorithm: Algorithm | undefined
+  let quantum: number | undefined
+  if (file.algorithm !== undefined) {
+    if (ALL_ALGORITHMS.includes(file.algorithm as Algorithm)) {
+      algorithm = file.algorithm as Algorithm
+    } else {
+      errors.push(`Unknown algorithm: ${String(file.algorithm)}`)
+    }
+  }
+  if (file.quantum !== undefined) {
+    if (typeof file.quantum === "number" && file.quantum >= 1) {
+      quantum = file.quantum
+    } else {
+      errors.push("Quantum must be a number >= 1")
+    }
+  }
+
+  const rows = file.processes.map((entry, i) => ({
+    label: `Process ${i + 1}`,
+    fields: (typeof entry === "object" && entry !== null ? entry : {}) as ProcessFields
+  }))
+  const result = buildProcesses(rows, validateRows)
+
+  return {
+    ...result,
+    algorithm,
+    quantum,
+    errors: [...errors, ...result.errors]
+  }
+}
+
+/**
+ * Parse a process file, choosing the format from the file name (or content)
+ */
+export function parseProcessFile(fileName: string, text: string): ProcessFileResult {
+  const name = fileName.toLowerCase()
+  if (name.endsWith(".json")) return parseJSON(text)
+  if (name.endsWith(".csv")) return parseCSV(text)
+  return text.trimStart().startsWith("{") ? parseJSON(text) : parseCSV(text)
+}
+
+/**
+ * Turn raw rows into processes, validating each with validateProcess() unless
+ * `validate` is false
+ */
+function buildProcesses(
+  rows: { label: string; fields: ProcessFields }[],
+  validate = true
+): ProcessFileResult {
+  const processes: Process[] = []
+  const errors: string[] = []
+  const seenPids = new Set<string>()
+
+  if (!validate) {
+    return { processes: rows.map(({ fields }, index) => toProcess(fields, index).process), errors }
+  }
+  if (rows.length === 0) {
+    return { processes, errors: ["File contains no processes"] }
+  }
+
+  rows.forEach(({ label, fields }, index) => {
+    const { process, errors: rowErrors } = toProcess(fields, index)
+
+    // Only validate values that parsed, so each problem is reported once
+    if (rowErrors.length === 0) {
+      rowErrors.push(...validateProcess(process).errors)
+    }
+    if (process.pid !== "" && seenPids.has(process.pid)) {
+      rowErrors.push(`Duplicate process ID ${process.pid}`)
+    }
+    seenPids.add(process.pid)
+
+    rowErrors.forEach((message) => errors.push(`${label}: ${message}`))
+    processes.push(process)
+  })
+
+  return { processes, errors }
+}
+
+/**
+ * Read the raw fields of one row into a process; values that do not parse
+ * fall back to 0 (or are left out) and are reported in `errors`
+ */
+function toProcess(fields: ProcessFields, index: number): { process: Process; errors: string[] } {
+  const errors: string[] = []
+
+  const number = (value: unknown, name: string): number | undefined => {
+    const parsed = typeof value === "string" && value.trim() !== "" ? Number(value) : value
+    if (typeof parsed === "number" && Number.isFinite(parsed)) return parsed
+    errors.push(`${name} must be a number`)
+    return undefined
+  }
+  const list = (value: unknown, name: string): number[] | undefined => {
+    if (value === undefined) return undefined
+    if (typeof value === "string") {
+      const { values, invalid } = parseNumberList(value)
+      invalid.forEach((token) => errors.push(`${name}: "${token}" is not a number >= 0`))
+      return values
+    }
+    if (Array.isArray(value) && value.every((v) => typeof v === "number")) return value
+    errors.push(`${name} must be a list of numbers`)
+    return undefined
+  }
+
+  const pid =
+    typeof fields.pid === "string" || typeof fields.pid === "number"
+      ? String(fields.pid).trim()
+      : ""
+  const arrivalTime = number(fields.arrivalTime, "Arrival time")
+  const priority = number(fields.priority, "Priority")
+  const bursts = list(fields.bursts, "Bursts")
+  const affinity = list(fields.affinity, "Affinity")
+  const tickets = fields.tickets === undefined ? undefined : number(fields.tickets, "Tickets")
+  const period = fields.period === undefined ? undefined : number(fields.period, "Period")
+  const deadline = fields.deadline === undefined ? undefined : number(fields.deadline, "Deadline")
+  // An explicit burst sequence defines the CPU total; the burst column may be blank
+  const burstTime =
+    bursts && bursts.length > 0 ? burstTotals(bursts).cpu : number(fields.burstTime, "Burst time")
+
+  const process: Process = {
+    pid,
+    arrivalTime: arrivalTime ?? 0,
+    burstTime: burstTime ?? 0,
+    priority: priority ?? 0,
+    insertionOrder: index
+  }
+  if (bursts && bursts.length > 1) process.bursts = bursts
+  if (affinity && affinity.length > 0) process.affinity = affinity
+  if (tickets !== undefined) process.tickets = tickets
+  if (period !== undefined) process.period = period
+  if (deadline !== undefined) process.deadline = deadline
+
+  return { process, errors }
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+function splitCSVLine(line: string): string[] {
+  const cells: string[] = []
+  let current = ""
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      cells.push(current.trim())
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  cells.push(current.trim())
+  return cells
+}
+
+/**
+ * Quote a CSV field when it contains a comma or quote
+ */
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
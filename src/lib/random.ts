@@ -0,0 +1,30 @@
+/**
+ * Seeded pseudo-random number generator (mulberry32).
+ * Returns a function producing floats in [0, 1); the same seed always gives
+ * the same sequence, so generated workloads and random policies are
+ * reproducible.
+ */
+export function createRandom(seed: number): () => number {
+  let state = Math.floor(seed) >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Exponentially distributed sample with the given mean
+ */
+export function sampleExponential(random: () => number, mean: number): number {
+  return -Math.log(1 - random()) * mean
+}
+
+/**
+ * Uniform integer in [min, max]
+ */
+export function sampleInteger(random: () => number, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1))
+}
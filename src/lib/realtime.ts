@@ -0,0 +1,156 @@
+import type { Process } from "../types"
+
+/**
+ * Longest stretch over which periodic tasks keep releasing jobs, counted from
+ * the latest first release; longer hyperperiods are cut short
+ */
+export const MAX_HYPERPERIOD = 1000
+
+/**
+ * Outcome of a schedulability test
+ */
+export type Verdict = "schedulable" | "not-schedulable" | "inconclusive"
+
+/**
+ * Utilization-based schedulability test of the periodic tasks in a process set
+ */
+export interface SchedulabilityTest {
+  tasks: number // periodic tasks tested
+  utilization: number // sum of WCET / period
+  bound: number // utilization up to which the test guarantees schedulability
+  verdict: Verdict
+  reason: string
+}
+
+/**
+ * Deadline of each job of `proc` relative to its release, if it has one
+ */
+export function relativeDeadline(proc: Process): number | undefined {
+  return proc.deadline ?? proc.period
+}
+
+/**
+ * Release time of job `job` of a periodic task (the arrival time of any other process)
+ */
+export function jobRelease(proc: Process, job = 0): number {
+  return proc.arrivalTime + job * (proc.period ?? 0)
+}
+
+/**
+ * Absolute deadline of a job released at `proc.arrivalTime` (Infinity without one)
+ */
+export function absoluteDeadline(proc: Process): number {
+  const deadline = relativeDeadline(proc)
+  return deadline === undefined ? Infinity : proc.arrivalTime + deadline
+}
+
+/**
+ * Whether a process has timing constraints (a period or a deadline)
+ */
+export function isRealTime(proc: Process): boolean {
+  return proc.period !== undefined || proc.deadline !== undefined
+}
+
+/**
+ * Key telling apart the jobs of a periodic task, which share its PID
+ * (just the PID for any other process)
+ */
+export function jobId({ pid, job }: { pid: string; job?: number }): string {
+  return job === undefined ? pid : `${pid}#${job}`
+}
+
+/**
+ * Least common multiple of the periods of the periodic tasks (0 when there are none)
+ */
+export function hyperperiod(processes: Process[]): number {
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b))
+  return processes.reduce(
+    (lcm, p) => {
+      if (p.period === undefined) return lcm
+      return lcm === 0 ? p.period : (lcm / gcd(lcm, p.period)) * p.period
+    },
+    0
+  )
+}
+
+/**
+ * Expand every periodic task into one job per period, each arriving at its
+ * release time with the task's burst time (its worst-case execution time) and
+ * numbered from 0 in `job`.
+ * Releases cover one hyperperiod after the latest first release, at most
+ * MAX_HYPERPERIOD. Other processes pass through unchanged.
+ */
+export function releaseJobs(processes: Process[]): Process[] {
+  const periodic = processes.filter((p) => p.period !== undefined)
+  if (periodic.length === 0) return processes
+
+  const end =
+    Math.max(...periodic.map((p) => p.arrivalTime)) +
+    Math.min(hyperperiod(periodic), MAX_HYPERPERIOD)
+  return processes.flatMap((p) => {
+    if (p.period === undefined) return [p]
+    const jobs: Process[] = []
+    for (let release = p.arrivalTime; release < end; release += p.period) {
+      jobs.push({ ...p, arrivalTime: release, job: jobs.length })
+    }
+    return jobs
+  })
+}
+
+/**
+ * Liu & Layland utilization bound for `n` tasks under Rate Monotonic: n(2^(1/n) - 1)
+ */
+export function liuLaylandBound(n: number): number {
+  return n > 0 ? n * (2 ** (1 / n) - 1) : 1
+}
+
+/**
+ * Utilization test of the periodic tasks on one CPU.
+ * Rate Monotonic is guaranteed schedulable up to the Liu & Layland bound; EDF
+ * up to a utilization of 1, which is exact when no deadline is shorter than
+ * its period. Otherwise EDF uses the density (WCET / min(deadline, period))
+ * as a sufficient test. Above its bound (but not above 1) a test cannot
+ * decide, and only the simulation shows whether deadlines are met.
+ */
+export function schedulability(processes: Process[], algorithm: "EDF" | "RM"): SchedulabilityTest {
+  const periodic = processes.filter((p) => p.period !== undefined)
+  const tasks = periodic.length
+  const utilization = periodic.reduce((sum, p) => sum + p.burstTime / p.period!, 0)
+  const constrained = periodic.some((p) => relativeDeadline(p)! < p.period!)
+  const u = utilization.toFixed(3)
+  const result = (bound: number, verdict: Verdict, reason: string): SchedulabilityTest => ({
+    tasks,
+    utilization,
+    bound,
+    verdict,
+    reason
+  })
+
+  if (algorithm === "EDF") {
+    if (utilization > 1) {
+      return result(1, "not-schedulable", `U = ${u} > 1: the tasks need more than one CPU`)
+    }
+    if (!constrained) {
+      return result(1, "schedulable", `U = ${u} <= 1, which is exact for EDF`)
+    }
+    const density = periodic.reduce(
+      (sum, p) => sum + p.burstTime / Math.min(relativeDeadline(p)!, p.period!),
+      0
+    )
+    return density <= 1
+      ? result(1, "schedulable", `Density ${density.toFixed(3)} <= 1`)
+      : result(1, "inconclusive", `Density ${density.toFixed(3)} > 1 with deadlines before periods`)
+  }
+
+  const bound = liuLaylandBound(tasks)
+  const formula = `${bound.toFixed(3)} = n(2^(1/n) - 1) for n = ${tasks}`
+  if (utilization > 1) {
+    return result(bound, "not-schedulable", `U = ${u} > 1: the tasks need more than one CPU`)
+  }
+  if (constrained) {
+    return result(bound, "inconclusive", "Liu & Layland assumes deadlines no shorter than periods")
+  }
+  return utilization <= bound
+    ? result(bound, "schedulable", `U = ${u} <= ${formula}`)
+    : result(bound, "inconclusive", `U = ${u} > ${formula}`)
+}
@@ -0,0 +1,97 @@
+import { getAlgorithm, DEFAULT_MLFQ_CONFIG } from "./scheduler"
+import type { Algorithm, ProcessMetrics, SimulationOptions } from "../types"
+
+/**
+ * One labelled line of the report's settings summary
+ */
+export interface ReportSetting {
+  label: string
+  value: string
+}
+
+/**
+ * The settings a run used, as shown at the top of the report. Only settings
+ * that affect the chosen algorithm (or differ from the defaults) are listed.
+ */
+export function reportSettings(
+  algorithm: Algorithm,
+  quantum: number,
+  options: SimulationOptions
+): ReportSetting[] {
+  const definition = getAlgorithm(algorithm)
+  const settings: ReportSetting[] = [
+    { label: "Algorithm", value: definition.label },
+    { label: "Type", value: definition.preemptive ? "Preemptive" : "Non-preemptive" }
+  ]
+
+  for (const param of definition.params) {
+    const value =
+      param.name === "quantum" ? quantum : (options.params?.[param.name] ?? param.default)
+    settings.push({ label: param.label, value: formatNumber(value) })
+  }
+
+  if (definition.options?.includes("aging") && options.aging && options.aging.interval > 0) {
+    settings.push({
+      label: "Aging",
+      value: `-${options.aging.step} priority every ${options.aging.interval} units waited`
+    })
+  }
+  if (definition.options?.includes("mlfq")) {
+    const { levels, boostInterval } = options.mlfq ?? DEFAULT_MLFQ_CONFIG
+    const queues = levels
+      .map((level, i) => `Q${i} ${level.policy === "FCFS" ? "FCFS" : `RR q=${level.quantum}`}`)
+      .join(", ")
+    settings.push({
+      label: "Queues",
+      value: boostInterval > 0 ? `${queues}; boost every ${boostInterval}` : queues
+    })
+  }
+
+  const cores = options.cores ?? 1
+  if (cores > 1) {
+    const queueMode = options.queueMode === "per-core" ? "per-core queues" : "shared queue"
+    settings.push({ label: "CPU cores", value: `${cores} (${queueMode})` })
+  }
+  if (options.contextSwitchCost) {
+    settings.push({
+      label: "Context switch",
+      value: `${formatNumber(options.contextSwitchCost)} units`
+    })
+  }
+  return settings
+}
+
+/**
+ * Step-by-step working of a process's turnaround, waiting and response
+ * times, e.g. "WT = CT - AT - BT = 14 - 0 - 5 = 9". A periodic task waits
+ * only within its jobs, so its waiting time adds up each job's time from
+ * release to completion instead.
+ */
+export function formulaWorking(metrics: ProcessMetrics): string[] {
+  const { completionTime: ct, arrivalTime: at, burstTime: bt, ioTime: io } = metrics
+  const n = formatNumber
+  const start = at + metrics.responseTime
+
+  const wt = n(metrics.waitingTime)
+  const jobs = metrics.jobs ?? []
+  const jobTime = jobs.reduce((sum, job) => sum + job.completion - job.release, 0)
+  const waiting =
+    jobs.length > 1
+      ? `WT = Σ(job CT - release) - BT = ${n(jobTime)} - ${n(bt)} = ${wt}`
+      : io > 0
+        ? `WT = CT - AT - BT - IO = ${n(ct)} - ${n(at)} - ${n(bt)} - ${n(io)} = ${wt}`
+        : `WT = CT - AT - BT = ${n(ct)} - ${n(at)} - ${n(bt)} = ${wt}`
+
+  return [
+    `TAT = CT - AT = ${n(ct)} - ${n(at)} = ${n(metrics.turnaroundTime)}`,
+    waiting,
+    `RT = Start - AT = ${n(start)} - ${n(at)} = ${n(metrics.responseTime)}`
+  ]
+}
+
+/**
+ * Whole numbers as is, other values rounded to two decimals
+ */
+export function formatNumber(value: number): string {
+  return String(Number(value.toFixed(2)))
+}
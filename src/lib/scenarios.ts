@@ -0,0 +1,325 @@
+import { getExampleProcesses } from "./scheduler"
+import { toProcessFile, readProcessFile } from "./processFiles"
+import type {
+  Process,
+  Scenario,
+  Workspace,
+  SimulationOptions,
+  MLFQConfig,
+  AgingConfig,
+  AlgorithmParams
+} from "../types"
+
+/**
+ * localStorage keys (alongside "darkMode")
+ */
+const WORKSPACE_KEY = "workspace"
+const LIBRARY_KEY = "scenarioLibrary"
+
+/**
+ * Version of the stored workspace and library documents
+ */
+const STORAGE_VERSION = 1
+
+/**
+ * The part of Storage the persistence helpers need (localStorage by default)
+ */
+export type ScenarioStorage = Pick<Storage, "getItem" | "setItem">
+
+/**
+ * Build a process list from [pid, arrival, burst, priority] rows
+ */
+function processList(rows: [string, number, number, number][]): Process[] {
+  return rows.map(([pid, arrivalTime, burstTime, priority], insertionOrder) => ({
+    pid,
+    arrivalTime,
+    burstTime,
+    priority,
+    insertionOrder
+  }))
+}
+
+/**
+ * Classic workloads that show off where each algorithm shines or fails
+ */
+export const BUILT_IN_SCENARIOS: Scenario[] = [
+  {
+    name: "Example",
+    description: "A small mixed workload to get started",
+    processes: getExampleProcesses(),
+    algorithm: "FCFS",
+    quantum: 2
+  },
+  {
+    name: "Convoy effect",
+    description: "Short jobs stuck behind one long job under FCFS; compare with SJF",
+    processes: processList([
+      ["P1", 0, 20, 1],
+      ["P2", 1, 2, 1],
+      ["P3", 2, 2, 1],
+      ["P4", 3, 2, 1]
+    ]),
+    algorithm: "FCFS",
+    quantum: 2
+  },
+  {
+    name: "Starvation",
+    description: "High-priority jobs keep arriving; LOW waits until all are done; turn on aging",
+    processes: processList([
+      ["LOW", 0, 4, 5],
+      ["H1", 0, 3, 1],
+      ["H2", 3, 3, 1],
+      ["H3", 6, 3, 1],
+      ["H4", 9, 3, 1],
+      ["H5", 12, 3, 1],
+      ["H6", 15, 3, 1],
+      ["H7", 18, 3, 1],
+      ["H8", 21, 3, 1]
+    ]),
+    algorithm: "Priority-P",
+    quantum: 2
+  },
+  {
+    name: "Round Robin worst case",
+    description: "Equal jobs and a tiny quantum: everyone finishes at the very end",
+    processes: processList([
+      ["P1", 0, 6, 1],
+      ["P2", 0, 6, 1],
+      ["P3", 0, 6, 1],
+      ["P4", 0, 6, 1],
+      ["P5", 0, 6, 1]
+    ]),
+    algorithm: "RoundRobin",
+    quantum: 1
+  },
+  {
+    name: "SJF vs SRTF",
+    description: "Late short jobs that only preemption can help",
+    processes: processList([
+      ["P1", 0, 8, 1],
+      ["P2", 1, 4, 1],
+      ["P3", 2, 9, 1],
+      ["P4", 3, 5, 1]
+    ]),
+    algorithm: "SJF-P",
+    quantum: 2
+  },
+  {
+    name: "I/O-bound vs CPU-bound",
+    description: "Interactive jobs with short CPU bursts next to a batch job; try MLFQ",
+    processes: [
+      ...processList([["BATCH", 0, 16, 3]]),
+      {
+        pid: "EDIT",
+        arrivalTime: 0,
+        burstTime: 3,
+        priority: 1,
+        insertionOrder: 1,
+        bursts: [1, 4, 1, 4, 1]
+      },
+      {
+        pid: "SHELL",
+        arrivalTime: 1,
+        burstTime: 4,
+        priority: 1,
+        insertionOrder: 2,
+        bursts: [2, 3, 2]
+      }
+    ],
+    algorithm: "MLFQ",
+    quantum: 2
+  }
+]
+
+/**
+ * Read the autosaved workspace, or null if there is none or it is unreadable.
+ * Processes come back as they were stored, invalid or duplicate rows and an
+ * empty table included, so the table can flag them instead of losing them.
+ */
+export function loadWorkspace(storage: ScenarioStorage = localStorage): Workspace | null {
+  const stored = readStored(storage, WORKSPACE_KEY)
+  if (!stored) return null
+
+  const file = readProcessFile(stored.file, false)
+  if (file.errors.length > 0 || !file.algorithm || !file.quantum) return null
+
+  return {
+    processes: file.processes,
+    algorithm: file.algorithm,
+    quantum: file.quantum,
+    options: readOptions(stored.options)
+  }
+}
+
+/**
+ * Autosave the workspace
+ */
+export function saveWorkspace(
+  workspace: Workspace,
+  storage: ScenarioStorage = localStorage
+): void {
+  writeStored(storage, WORKSPACE_KEY, {
+    file: toProcessFile(workspace.processes, workspace.algorithm, workspace.quantum),
+    options: workspace.options
+  })
+}
+
+/**
+ * Read the saved scenario library; unreadable entries are skipped. As with the
+ * workspace, processes are restored as saved, invalid rows included.
+ */
+export function loadLibrary(storage: ScenarioStorage = localStorage): Scenario[] {
+  const stored = readStored(storage, LIBRARY_KEY)
+  if (!stored || !Array.isArray(stored.scenarios)) return []
+
+  const library: Scenario[] = []
+  for (const entry of stored.scenarios) {
+    if (typeof entry !== "object" || entry === null || typeof entry.name !== "string") continue
+    const file = readProcessFile(entry.file, false)
+    if (file.errors.length > 0 || !file.algorithm || !file.quantum) continue
+    library.push({
+      name: entry.name,
+      ...(typeof entry.description === "string" ? { description: entry.description } : {}),
+      processes: file.processes,
+      algorithm: file.algorithm,
+      quantum: file.quantum
+    })
+  }
+  return library
+}
+
+/**
+ * Store the scenario library
+ */
+export function saveLibrary(library: Scenario[], storage: ScenarioStorage = localStorage): void {
+  writeStored(storage, LIBRARY_KEY, {
+    scenarios: library.map((scenario) => ({
+      name: scenario.name,
+      ...(scenario.description ? { description: scenario.description } : {}),
+      file: toProcessFile(scenario.processes, scenario.algorithm, scenario.quantum)
+    }))
+  })
+}
+
+/**
+ * Save a scenario, replacing any saved scenario with the same name
+ */
+export function saveScenario(library: Scenario[], scenario: Scenario): Scenario[] {
+  const index = library.findIndex((s) => s.name === scenario.name)
+  if (index === -1) return [...library, scenario]
+  return library.map((s, i) => (i === index ? scenario : s))
+}
+
+/**
+ * Rename a saved scenario; a taken name gets a numeric suffix
+ */
+export function renameScenario(library: Scenario[], name: string, newName: string): Scenario[] {
+  const trimmed = newName.trim()
+  if (trimmed === "" || trimmed === name) return library
+  const others = library.filter((s) => s.name !== name)
+  const unique = uniqueName(trimmed, others)
+  return library.map((s) => (s.name === name ? { ...s, name: unique } : s))
+}
+
+/**
+ * Remove a saved scenario
+ */
+export function deleteScenario(library: Scenario[], name: string): Scenario[] {
+  return library.filter((s) => s.name !== name)
+}
+
+/**
+ * Copy a saved scenario, inserting the copy right after it
+ */
+export function duplicateScenario(library: Scenario[], name: string): Scenario[] {
+  const index = library.findIndex((s) => s.name === name)
+  if (index === -1) return library
+  const copy = { ...library[index], name: uniqueName(`${name} (copy)`, library) }
+  return [...library.slice(0, index + 1), copy, ...library.slice(index + 1)]
+}
+
+/**
+ * `name`, or `name 2`, `name 3`... if it is already taken
+ */
+export function uniqueName(name: string, library: Scenario[]): string {
+  const taken = new Set(library.map((s) => s.name))
+  let candidate = name
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${name} ${n}`
+  }
+  return candidate
+}
+
+/**
+ * Keep only well-formed simulation options from stored or shared data
+ */
+export function readOptions(data: unknown): SimulationOptions {
+  if (typeof data !== "object" || data === null) return {}
+  const raw = data as Record<string, unknown>
+  const options: SimulationOptions = {}
+
+  if (isNonNegative(raw.contextSwitchCost)) options.contextSwitchCost = raw.contextSwitchCost
+  if (isNonNegative(raw.cores) && raw.cores >= 1) options.cores = raw.cores
+  if (raw.queueMode === "global" || raw.queueMode === "per-core") options.queueMode = raw.queueMode
+  if (isNonNegative(raw.starvationThreshold)) {
+    options.starvationThreshold = raw.starvationThreshold
+  }
+  if (isMLFQConfig(raw.mlfq)) options.mlfq = raw.mlfq
+  if (isAgingConfig(raw.aging)) options.aging = raw.aging
+  if (isParams(raw.params)) options.params = raw.params
+  return options
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+}
+
+function isMLFQConfig(value: unknown): value is MLFQConfig {
+  if (typeof value !== "object" || value === null) return false
+  const config = value as Record<string, unknown>
+  return (
+    isNonNegative(config.boostInterval) &&
+    Array.isArray(config.levels) &&
+    config.levels.length > 0 &&
+    config.levels.every(
+      (level) =>
+        typeof level === "object" &&
+        level !== null &&
+        isNonNegative(level.quantum) &&
+        level.quantum >= 1 &&
+        (level.policy === "RR" || level.policy === "FCFS")
+    )
+  )
+}
+
+function isAgingConfig(value: unknown): value is AgingConfig {
+  if (typeof value !== "object" || value === null) return false
+  const config = value as Record<string, unknown>
+  return isNonNegative(config.step) && isNonNegative(config.interval)
+}
+
+function isParams(value: unknown): value is AlgorithmParams {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false
+  return Object.values(value).every((v) => typeof v === "number" && Number.isFinite(v))
+}
+
+/**
+ * Parse a versioned document from storage, or null if missing or unreadable
+ */
+function readStored(storage: ScenarioStorage, key: string): Record<string, unknown> | null {
+  const text = storage.getItem(key)
+  if (text === null) return null
+  try {
+    const data = JSON.parse(text)
+    if (typeof data !== "object" || data === null || data.version !== STORAGE_VERSION) {
+      return null
+    }
+    return data
+  } catch {
+    return null
+  }
+}
+
+function writeStored(storage: ScenarioStorage, key: string, data: object): void {
+  storage.setItem(key, JSON.stringify({ version: STORAGE_VERSION, ...data }))
+}
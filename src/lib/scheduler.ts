@@ -1,297 +1,628 @@
+import {
+  runSimulation,
+  burstSequence,
+  burstTotals,
+  type EngineOptions,
+  type EngineResult,
+  type SchedulingPolicy,
+  type SimProcess
+} from "./engine"
+import { createRandom } from "./random"
+import { releaseJobs, absoluteDeadline, isRealTime, jobId } from "./realtime"
+import { nextPrediction } from "./prediction"
 import type {
   Process,
   Algorithm,
-  GanttSegment,
   ProcessMetrics,
-  SimulationResult
+  SimulationResult,
+  MLFQConfig,
+  AgingConfig,
+  SimulationOptions,
+  AlgorithmComparison,
+  AlgorithmParam,
+  AlgorithmParams,
+  AlgorithmOptionKey,
+  ProcessFieldKey,
+  QueueKey,
+  TraceEvent,
+  QueuedJob
 } from "../types"
 
+/**
+ * Default MLFQ setup: two Round Robin levels followed by an FCFS level
+ */
+export const DEFAULT_MLFQ_CONFIG: MLFQConfig = {
+  levels: [
+    { quantum: 2, policy: "RR" },
+    { quantum: 4, policy: "RR" },
+    { quantum: 8, policy: "FCFS" }
+  ],
+  boostInterval: 0
+}
+
+/**
+ * Default aging: one priority level per interval waited; off until an interval is set
+ */
+export const DEFAULT_AGING_CONFIG: AgingConfig = {
+  step: 1,
+  interval: 0
+}
+
+/**
+ * Tickets of a process without its own (Lottery and Stride scheduling)
+ */
+export const DEFAULT_TICKETS = 100
+
+/**
+ * Stride scheduling: a process's stride is this constant divided by its tickets
+ */
+export const STRIDE_CONSTANT = 10000
+
+/**
+ * CFS: weight of each nice value from -20 to 19 (the kernel's
+ * sched_prio_to_weight table); each step is about 1.25x
+ */
+export const NICE_TO_WEIGHT = [
+  88761, 71755, 56483, 46273, 36291, 29154, 23254, 18705, 14949, 11916,
+  9548, 7620, 6100, 4904, 3906, 3121, 2501, 1991, 1586, 1277,
+  1024, 820, 655, 526, 423, 335, 272, 215, 172, 137,
+  110, 87, 70, 56, 45, 36, 29, 23, 18, 15
+]
+
+/**
+ * CFS: weight of nice 0; vruntime advances at wall-clock rate at this weight
+ */
+export const NICE_0_WEIGHT = 1024
+
+/**
+ * What a scheduling function gets besides the processes
+ */
+export interface ScheduleContext {
+  engine: EngineOptions
+  params: AlgorithmParams // every declared parameter, defaults filled in
+  options: SimulationOptions
+}
+
+/**
+ * A scheduling algorithm as offered in the app. Adding an entry to
+ * ALGORITHMS (and its id to the Algorithm type) is all a new policy needs;
+ * the menus, parameter inputs and comparisons are built from this list.
+ */
+export interface AlgorithmDefinition {
+  id: Algorithm
+  label: string // full name, e.g. "Round Robin (RR)"
+  shortLabel: string // for cards, charts and the footer, e.g. "RR"
+  description: string
+  preemptive: boolean
+  params: AlgorithmParam[]
+  options?: AlgorithmOptionKey[] // structured SimulationOptions the algorithm reads
+  processFields?: ProcessFieldKey[] // optional Process fields the algorithm reads
+  queueKey?: QueueKey // what the ready queue is ordered by, if anything visible
+  schedule: (processes: Process[], context: ScheduleContext) => EngineResult
+}
+
+/**
+ * Round Robin time slice; `quantum` is also kept in scenarios and share links
+ */
+const QUANTUM_PARAM: AlgorithmParam = {
+  name: "quantum",
+  label: "Time Quantum",
+  description: "Time slice for each process",
+  default: 2,
+  min: 1,
+  integer: true
+}
+
+/**
+ * Seed of the random generator behind randomized policies
+ */
+const SEED_PARAM: AlgorithmParam = {
+  name: "seed",
+  label: "Random Seed",
+  description: "The same seed replays the same random draws",
+  default: 1,
+  min: 0,
+  integer: true
+}
+
+/**
+ * Burst prediction: weight of the last burst in the exponential average
+ */
+const ALPHA_PARAM: AlgorithmParam = {
+  name: "alpha",
+  label: "Smoothing (α)",
+  description: "Weight of the last burst; 0 never learns, 1 trusts only the last burst",
+  default: 0.5,
+  min: 0,
+  max: 1,
+  step: 0.1
+}
+
+/**
+ * Burst prediction: guess for a process's first CPU burst
+ */
+const TAU0_PARAM: AlgorithmParam = {
+  name: "tau0",
+  label: "Initial Guess (τ0)",
+  description: "Predicted length of every process's first CPU burst",
+  default: 5,
+  min: 0,
+  step: 0.5
+}
+
+/**
+ * Every supported algorithm, in menu order
+ */
+export const ALGORITHMS: AlgorithmDefinition[] = [
+  {
+    id: "FCFS",
+    label: "First Come First Served (FCFS)",
+    shortLabel: "FCFS",
+    description: "Processes executed in arrival order",
+    preemptive: false,
+    params: [],
+    schedule: (processes, { engine }) => scheduleFCFS(processes, engine)
+  },
+  {
+    id: "SJF",
+    label: "Shortest Job First (SJF)",
+    shortLabel: "SJF",
+    description: "Non-preemptive, shortest burst time first",
+    preemptive: false,
+    params: [],
+    queueKey: "burst",
+    schedule: (processes, { engine }) => scheduleSJF(processes, engine)
+  },
+  {
+    id: "SJF-P",
+    label: "Shortest Remaining Time First (SRTF)",
+    shortLabel: "SRTF",
+    description: "Preemptive SJF, shortest remaining time first",
+    preemptive: true,
+    params: [],
+    queueKey: "remaining",
+    schedule: (processes, { engine }) => scheduleSRTF(processes, engine)
+  },
+  {
+    id: "SJF-Predicted",
+    label: "SJF with Burst Prediction",
+    shortLabel: "SJF-Pred",
+    description: "Non-preemptive, shortest predicted burst first (exponential averaging)",
+    preemptive: false,
+    params: [ALPHA_PARAM, TAU0_PARAM],
+    schedule: (processes, { engine, params }) =>
+      schedulePredictedSJF(processes, false, params.alpha, params.tau0, engine)
+  },
+  {
+    id: "SRTF-Predicted",
+    label: "SRTF with Burst Prediction",
+    shortLabel: "SRTF-Pred",
+    description: "Preemptive, shortest predicted remaining time first (exponential averaging)",
+    preemptive: true,
+    params: [ALPHA_PARAM, TAU0_PARAM],
+    schedule: (processes, { engine, params }) =>
+      schedulePredictedSJF(processes, true, params.alpha, params.tau0, engine)
+  },
+  {
+    id: "HRRN",
+    label: "Highest Response Ratio Next (HRRN)",
+    shortLabel: "HRRN",
+    description: "Non-preemptive, highest (waiting + burst) / burst first",
+    preemptive: false,
+    params: [],
+    queueKey: "ratio",
+    schedule: (processes, { engine }) => scheduleHRRN(processes, engine)
+  },
+  {
+    id: "Priority",
+    label: "Priority Scheduling",
+    shortLabel: "Priority",
+    description: "Non-preemptive, lower priority number = higher priority",
+    preemptive: false,
+    params: [],
+    options: ["aging"],
+    queueKey: "priority",
+    schedule: (processes, { engine, options }) =>
+      schedulePriority(processes, options.aging, engine)
+  },
+  {
+    id: "Priority-P",
+    label: "Priority Scheduling (Preemptive)",
+    shortLabel: "Priority-P",
+    description: "Preemptive, preempts when higher priority arrives",
+    preemptive: true,
+    params: [],
+    options: ["aging"],
+    queueKey: "priority",
+    schedule: (processes, { engine, options }) =>
+      schedulePriorityPreemptive(processes, options.aging, engine)
+  },
+  {
+    id: "RoundRobin",
+    label: "Round Robin (RR)",
+    shortLabel: "RR",
+    description: "Preemptive with time quantum",
+    preemptive: true,
+    params: [QUANTUM_PARAM],
+    schedule: (processes, { engine, params }) =>
+      scheduleRoundRobin(processes, params.quantum, engine)
+  },
+  {
+    id: "MLFQ",
+    label: "Multilevel Feedback Queue (MLFQ)",
+    shortLabel: "MLFQ",
+    description: "Preemptive, demotes processes that use their whole quantum",
+    preemptive: true,
+    params: [],
+    options: ["mlfq"],
+    schedule: (processes, { engine, options }) =>
+      scheduleMLFQ(processes, options.mlfq ?? DEFAULT_MLFQ_CONFIG, engine)
+  },
+  {
+    id: "Lottery",
+    label: "Lottery Scheduling",
+    shortLabel: "Lottery",
+    description: "Preemptive, a random ticket draw picks who runs each quantum",
+    preemptive: true,
+    params: [QUANTUM_PARAM, SEED_PARAM],
+    processFields: ["tickets"],
+    queueKey: "tickets",
+    schedule: (processes, { engine, params }) =>
+      scheduleLottery(processes, params.quantum, params.seed, engine)
+  },
+  {
+    id: "Stride",
+    label: "Stride Scheduling",
+    shortLabel: "Stride",
+    description: "Preemptive, runs the lowest pass; each quantum adds 10000 / tickets",
+    preemptive: true,
+    params: [QUANTUM_PARAM],
+    processFields: ["tickets"],
+    queueKey: "tickets",
+    schedule: (processes, { engine, params }) =>
+      scheduleStride(processes, params.quantum, engine)
+  },
+  {
+    id: "CFS",
+    label: "Completely Fair Scheduler (CFS)",
+    shortLabel: "CFS",
+    description: "Preemptive, runs the lowest vruntime; nice = priority - 20",
+    preemptive: true,
+    params: [
+      {
+        name: "targetLatency",
+        label: "Target Latency",
+        description: "Period in which every runnable process should run once",
+        default: 6,
+        min: 0.5,
+        step: 0.5
+      },
+      {
+        name: "minGranularity",
+        label: "Minimum Granularity",
+        description: "Shortest slice; stretches the period when many processes are runnable",
+        default: 0.75,
+        min: 0.25,
+        step: 0.25
+      }
+    ],
+    queueKey: "nice",
+    schedule: (processes, { engine, params }) =>
+      scheduleCFS(processes, params.targetLatency, params.minGranularity, engine)
+  },
+  {
+    id: "EDF",
+    label: "Earliest Deadline First (EDF)",
+    shortLabel: "EDF",
+    description: "Preemptive, earliest absolute deadline first",
+    preemptive: true,
+    params: [],
+    processFields: ["period", "deadline"],
+    queueKey: "deadline",
+    schedule: (processes, { engine }) => scheduleEDF(processes, engine)
+  },
+  {
+    id: "RM",
+    label: "Rate Monotonic (RM)",
+    shortLabel: "RM",
+    description: "Preemptive, fixed priority by period: shortest period first",
+    preemptive: true,
+    params: [],
+    processFields: ["period", "deadline"],
+    queueKey: "period",
+    schedule: (processes, { engine }) => scheduleRM(processes, engine)
+  }
+]
+
+/**
+ * Every supported algorithm id, in menu order
+ */
+export const ALL_ALGORITHMS: Algorithm[] = ALGORITHMS.map((a) => a.id)
+
+/**
+ * Look up an algorithm in the registry
+ */
+export function getAlgorithm(id: Algorithm): AlgorithmDefinition {
+  const definition = ALGORITHMS.find((a) => a.id === id)
+  if (!definition) {
+    throw new Error(`Unknown algorithm: ${id}`)
+  }
+  return definition
+}
+
+/**
+ * Values for every parameter `definition` declares: the given value clamped
+ * to the parameter's range, or its default when missing
+ */
+export function resolveParams(
+  definition: AlgorithmDefinition,
+  values: AlgorithmParams
+): AlgorithmParams {
+  const params: AlgorithmParams = {}
+  for (const param of definition.params) {
+    const value = values[param.name]
+    params[param.name] =
+      typeof value === "number" && Number.isFinite(value)
+        ? Math.min(param.max ?? Infinity, Math.max(param.min, value))
+        : param.default
+  }
+  return params
+}
+
 /**
  * Main simulation function that dispatches to the appropriate algorithm
  */
 export function simulateSchedule(
   processes: Process[],
   algorithm: Algorithm,
-  quantum: number = 2
+  quantum: number = 2,
+  options: SimulationOptions = {}
 ): SimulationResult {
   if (processes.length === 0) {
     return {
       ganttChart: [],
+      ioChart: [],
+      events: [],
       processMetrics: [],
       averageWaitingTime: 0,
       averageTurnaroundTime: 0,
       averageResponseTime: 0,
       cpuUtilization: 0,
+      cpuUtilizationWithOverhead: 0,
+      coreUtilization: [],
+      contextSwitches: 0,
+      switchOverhead: 0,
+      fairnessIndex: 0,
+      maxWaitingTime: 0,
+      p95WaitingTime: 0,
       totalTime: 0
     }
   }
 
   // Create deep copy to avoid modifying original processes
   const procs = processes.map((p) => ({ ...p }))
+  // Periodic tasks run as one job per release
+  const jobs = releaseJobs(procs)
 
-  let ganttChart: GanttSegment[]
-
-  switch (algorithm) {
-    case "FCFS":
-      ganttChart = scheduleFCFS(procs)
-      break
-    case "SJF":
-      ganttChart = scheduleSJF(procs)
-      break
-    case "SJF-P":
-      ganttChart = scheduleSRTF(procs)
-      break
-    case "Priority":
-      ganttChart = schedulePriority(procs)
-      break
-    case "Priority-P":
-      ganttChart = schedulePriorityPreemptive(procs)
-      break
-    case "RoundRobin":
-      ganttChart = scheduleRoundRobin(procs, quantum)
-      break
-    default:
-      throw new Error(`Unknown algorithm: ${algorithm}`)
+  const engine: EngineOptions = {
+    contextSwitchCost: Math.max(0, options.contextSwitchCost ?? 0),
+    cores: Math.max(1, Math.floor(options.cores ?? 1)),
+    queueMode: options.queueMode ?? "global"
   }
 
+  const definition = getAlgorithm(algorithm)
+  const timelines = definition.schedule(jobs, {
+    engine,
+    params: resolveParams(definition, { ...options.params, quantum }),
+    options
+  })
+
   // Compute metrics
-  return computeMetrics(procs, ganttChart)
+  return computeMetrics(
+    procs,
+    jobs,
+    timelines,
+    engine.cores,
+    options.starvationThreshold ?? Infinity
+  )
 }
 
 /**
- * First Come First Served (FCFS) - Non-preemptive
- * Processes are executed in order of arrival time
+ * Run the same workload and settings through several algorithms
  */
-function scheduleFCFS(processes: Process[]): GanttSegment[] {
-  // Sort by arrival time, then by insertion order (for stability)
-  const sorted = [...processes].sort((a, b) => {
-    if (a.arrivalTime !== b.arrivalTime) {
-      return a.arrivalTime - b.arrivalTime
-    }
-    return a.insertionOrder - b.insertionOrder
-  })
+export function compareAlgorithms(
+  processes: Process[],
+  algorithms: Algorithm[] = ALL_ALGORITHMS,
+  quantum: number = 2,
+  options: SimulationOptions = {}
+): AlgorithmComparison[] {
+  return algorithms.map((algorithm) => ({
+    algorithm,
+    result: simulateSchedule(processes, algorithm, quantum, options)
+  }))
+}
 
-  const gantt: GanttSegment[] = []
-  let currentTime = 0
+/**
+ * Entries of an event's ready queue, each with its job index when it is a job
+ * of a periodic task
+ */
+export function queuedJobs(event: TraceEvent): QueuedJob[] {
+  return event.readyQueue.map((pid, i) => {
+    const job = event.readyJobs?.[i]
+    return job === undefined || job === null ? { pid } : { pid, job }
+  })
+}
 
-  for (const proc of sorted) {
-    // Handle idle time if no process has arrived yet
-    if (currentTime < proc.arrivalTime) {
-      gantt.push({
-        pid: null,
-        start: currentTime,
-        end: proc.arrivalTime
-      })
-      currentTime = proc.arrivalTime
-    }
+/**
+ * Ready queues right after everything that happened at or before `time`,
+ * rebuilt from the trace. Returns one queue for a shared ready queue, or one
+ * per core when the run used per-core queues (arrivals then name a core).
+ */
+export function readyQueuesAt(events: TraceEvent[], time: number): QueuedJob[][] {
+  const perCore = events.some((e) => e.type === "arrival" && e.core !== undefined)
+  const queues: QueuedJob[][] = []
+  for (const event of events) {
+    if (event.time > time) break
+    queues[perCore ? event.core ?? 0 : 0] = queuedJobs(event)
+  }
+  const count = perCore ? events.reduce((max, e) => Math.max(max, (e.core ?? 0) + 1), 1) : 1
+  return Array.from({ length: count }, (_, i) => queues[i] ?? [])
+}
 
-    // Execute the process
-    gantt.push({
-      pid: proc.pid,
-      start: currentTime,
-      end: currentTime + proc.burstTime
-    })
-    currentTime += proc.burstTime
+/**
+ * Tie-break shared by all ordered policies: arrival time, then insertion order
+ */
+function byArrival(a: Process, b: Process): number {
+  if (a.arrivalTime !== b.arrivalTime) {
+    return a.arrivalTime - b.arrivalTime
   }
+  return a.insertionOrder - b.insertionOrder
+}
 
-  return gantt
+/**
+ * First Come First Served (FCFS) - Non-preemptive
+ * Processes are executed in order of arrival time
+ */
+function scheduleFCFS(processes: Process[], engine: EngineOptions): EngineResult {
+  // The ready queue is already in arrival order, then insertion order
+  return runSimulation(processes, { preemptive: false }, engine)
 }
 
 /**
  * Shortest Job First (SJF) - Non-preemptive
- * Choose the process with the smallest burst time among arrived processes
- */
-function scheduleSJF(processes: Process[]): GanttSegment[] {
-  const gantt: GanttSegment[] = []
-  const remaining = [...processes]
-  let currentTime = 0
-
-  while (remaining.length > 0) {
-    // Find processes that have arrived
-    const available = remaining.filter((p) => p.arrivalTime <= currentTime)
-
-    if (available.length === 0) {
-      // No process has arrived yet, find the next arrival
-      const nextArrival = Math.min(...remaining.map((p) => p.arrivalTime))
-      gantt.push({
-        pid: null,
-        start: currentTime,
-        end: nextArrival
-      })
-      currentTime = nextArrival
-      continue
-    }
+ * Choose the process with the smallest (next CPU) burst time among arrived processes
+ */
+function scheduleSJF(processes: Process[], engine: EngineOptions): EngineResult {
+  return runSimulation(
+    processes,
+    {
+      preemptive: false,
+      // Tie-break: arrival time, then insertion order
+      compare: (a, b) => a.cpuBurst - b.cpuBurst || byArrival(a, b),
+      sortedQueue: true
+    },
+    engine
+  )
+}
 
-    // Select the one with shortest burst time
-    // Tie-break: arrival time, then insertion order
-    available.sort((a, b) => {
-      if (a.burstTime !== b.burstTime) {
-        return a.burstTime - b.burstTime
-      }
-      if (a.arrivalTime !== b.arrivalTime) {
-        return a.arrivalTime - b.arrivalTime
-      }
-      return a.insertionOrder - b.insertionOrder
-    })
-
-    const selected = available[0]
-    const index = remaining.findIndex((p) => p.pid === selected.pid)
-    remaining.splice(index, 1)
-
-    gantt.push({
-      pid: selected.pid,
-      start: currentTime,
-      end: currentTime + selected.burstTime
-    })
-    currentTime += selected.burstTime
-  }
+/**
+ * SJF / SRTF with predicted bursts
+ * Like SJF (or SRTF when `preemptive`), but ranked by a prediction of the next
+ * CPU burst instead of its real length, which no OS knows in advance. Every
+ * process starts at tau0; when a CPU burst of length t ends, its prediction
+ * becomes α·t + (1 - α)·τ. SRTF ranks by the prediction minus the time the
+ * burst has already run, never below 0.
+ */
+function schedulePredictedSJF(
+  processes: Process[],
+  preemptive: boolean,
+  alpha: number,
+  tau0: number,
+  engine: EngineOptions
+): EngineResult {
+  const prediction = new Map<string, number>()
+  const predictedOf = (proc: Process) => prediction.get(proc.pid) ?? tau0
+  const ran = (proc: SimProcess) => proc.cpuBurst - proc.remainingBurst
+  const rankOf = (proc: SimProcess) =>
+    preemptive ? Math.max(0, predictedOf(proc) - ran(proc)) : predictedOf(proc)
+  const format = (value: number) => Number(value.toFixed(2))
+
+  return runSimulation(
+    processes,
+    {
+      preemptive,
+      // Tie-break: arrival time, then insertion order
+      compare: (a, b) => rankOf(a) - rankOf(b) || byArrival(a, b),
+      // The burst just ended: learn from its real length
+      onRun: (proc) => {
+        if (proc.remainingBurst === 0) {
+          prediction.set(proc.pid, nextPrediction(alpha, proc.cpuBurst, predictedOf(proc)))
+        }
+      },
+      describeDispatch: (proc) =>
+        `Predicted ${format(predictedOf(proc))}` +
+        (ran(proc) > 0 ? `, ${format(rankOf(proc))} left` : "") +
+        `; actual ${proc.cpuBurst}`
+    },
+    engine
+  )
+}
 
-  return gantt
+/**
+ * Response ratio of a process that has waited `waiting` for a CPU burst of `burst`
+ */
+export function responseRatio(waiting: number, burst: number): number {
+  return (waiting + burst) / burst
+}
+
+/**
+ * Highest Response Ratio Next (HRRN) - Non-preemptive
+ * Choose the process with the highest (waiting + burst) / burst, where waiting
+ * is the time since it last became ready and burst its next CPU burst. Short
+ * jobs still go first, but a long job's ratio grows while it waits, so it
+ * cannot starve as under SJF.
+ */
+function scheduleHRRN(processes: Process[], engine: EngineOptions): EngineResult {
+  const readySince = new Map<string, number>()
+  const ratioOf = (proc: SimProcess, now: number) =>
+    responseRatio(now - (readySince.get(jobId(proc)) ?? now), proc.cpuBurst)
+  const format = (value: number) => Number(value.toFixed(2))
+  // Tie-break: arrival time, then insertion order
+  const compare = (a: SimProcess, b: SimProcess, now: number) =>
+    ratioOf(b, now) - ratioOf(a, now) || byArrival(a, b)
+  // The ratios every dispatch was decided on, for the trace
+  let ratios = ""
+
+  return runSimulation(
+    processes,
+    {
+      preemptive: false,
+      compare,
+      select: (candidates, now) => {
+        const ranked = [...candidates].sort((a, b) => compare(a, b, now))
+        const [next] = ranked
+        const waited = now - (readySince.get(jobId(next)) ?? now)
+        const others = ranked.slice(1).map((proc) => `${proc.pid} ${format(ratioOf(proc, now))}`)
+        ratios =
+          `Ratio ${format(ratioOf(next, now))} = ` +
+          `(${format(waited)} + ${next.cpuBurst}) / ${next.cpuBurst}` +
+          (others.length > 0 ? `; others: ${others.join(", ")}` : "")
+        return next
+      },
+      onReady: (proc, now) => readySince.set(jobId(proc), now),
+      describeDispatch: () => ratios
+    },
+    engine
+  )
 }
 
 /**
  * Shortest Remaining Time First (SRTF) - Preemptive SJF
  * Always runs the process with the shortest remaining burst time
  */
-function scheduleSRTF(processes: Process[]): GanttSegment[] {
-  const gantt: GanttSegment[] = []
-
-  // Create a copy with remaining burst time
-  interface SRTFProcess extends Process {
-    remainingBurst: number
-  }
-
-  const allProcesses: SRTFProcess[] = processes
-    .map((p) => ({ ...p, remainingBurst: p.burstTime }))
-    .sort((a, b) => {
-      if (a.arrivalTime !== b.arrivalTime) {
-        return a.arrivalTime - b.arrivalTime
-      }
-      return a.insertionOrder - b.insertionOrder
-    })
-
-  let currentTime = 0
-  let completed = 0
-  const n = allProcesses.length
-
-  while (completed < n) {
-    // Find processes that have arrived and have remaining burst time
-    const available = allProcesses.filter(
-      (p) => p.arrivalTime <= currentTime && p.remainingBurst > 0
-    )
-
-    if (available.length === 0) {
-      // No process available, find next arrival
-      const nextArrival = Math.min(
-        ...allProcesses.filter((p) => p.remainingBurst > 0).map((p) => p.arrivalTime)
-      )
-      gantt.push({
-        pid: null,
-        start: currentTime,
-        end: nextArrival
-      })
-      currentTime = nextArrival
-      continue
-    }
-
-    // Select the one with shortest remaining time
-    // Tie-break: arrival time, then insertion order
-    available.sort((a, b) => {
-      if (a.remainingBurst !== b.remainingBurst) {
-        return a.remainingBurst - b.remainingBurst
-      }
-      if (a.arrivalTime !== b.arrivalTime) {
-        return a.arrivalTime - b.arrivalTime
-      }
-      return a.insertionOrder - b.insertionOrder
-    })
-
-    const selected = available[0]
-
-    // Find the next event time (next arrival or completion)
-    const nextArrivals = allProcesses.filter(
-      (p) => p.arrivalTime > currentTime && p.remainingBurst > 0
-    )
-    const nextArrivalTime = nextArrivals.length > 0
-      ? Math.min(...nextArrivals.map((p) => p.arrivalTime))
-      : Infinity
-
-    // Run until next arrival or completion, whichever is sooner
-    const runTime = Math.min(selected.remainingBurst, nextArrivalTime - currentTime)
-
-    // Merge with previous segment if same process
-    const lastSegment = gantt[gantt.length - 1]
-    if (lastSegment && lastSegment.pid === selected.pid && lastSegment.end === currentTime) {
-      lastSegment.end = currentTime + runTime
-    } else {
-      gantt.push({
-        pid: selected.pid,
-        start: currentTime,
-        end: currentTime + runTime
-      })
-    }
-
-    currentTime += runTime
-    selected.remainingBurst -= runTime
-
-    if (selected.remainingBurst === 0) {
-      completed++
-    }
-  }
-
-  return gantt
+function scheduleSRTF(processes: Process[], engine: EngineOptions): EngineResult {
+  return runSimulation(
+    processes,
+    {
+      preemptive: true,
+      // Tie-break: arrival time, then insertion order
+      compare: (a, b) => a.remainingBurst - b.remainingBurst || byArrival(a, b),
+      sortedQueue: true
+    },
+    engine
+  )
 }
 
 /**
  * Priority Scheduling - Non-preemptive
  * Lower priority number = higher priority
  */
-function schedulePriority(processes: Process[]): GanttSegment[] {
-  const gantt: GanttSegment[] = []
-  const remaining = [...processes]
-  let currentTime = 0
-
-  while (remaining.length > 0) {
-    // Find processes that have arrived
-    const available = remaining.filter((p) => p.arrivalTime <= currentTime)
-
-    if (available.length === 0) {
-      // No process has arrived yet
-      const nextArrival = Math.min(...remaining.map((p) => p.arrivalTime))
-      gantt.push({
-        pid: null,
-        start: currentTime,
-        end: nextArrival
-      })
-      currentTime = nextArrival
-      continue
-    }
-
-    // Select the one with highest priority (lowest number)
-    // Tie-break: arrival time, then insertion order
-    available.sort((a, b) => {
-      if (a.priority !== b.priority) {
-        return a.priority - b.priority
-      }
-      if (a.arrivalTime !== b.arrivalTime) {
-        return a.arrivalTime - b.arrivalTime
-      }
-      return a.insertionOrder - b.insertionOrder
-    })
-
-    const selected = available[0]
-    const index = remaining.findIndex((p) => p.pid === selected.pid)
-    remaining.splice(index, 1)
-
-    gantt.push({
-      pid: selected.pid,
-      start: currentTime,
-      end: currentTime + selected.burstTime
-    })
-    currentTime += selected.burstTime
-  }
-
-  return gantt
+function schedulePriority(
+  processes: Process[],
+  aging: AgingConfig | undefined,
+  engine: EngineOptions
+): EngineResult {
+  return runSimulation(processes, priorityPolicy(false, aging), engine)
 }
 
 /**
@@ -299,181 +630,419 @@ function schedulePriority(processes: Process[]): GanttSegment[] {
  * Always runs the process with the highest priority (lowest number)
  * Preempts when a higher priority process arrives
  */
-function schedulePriorityPreemptive(processes: Process[]): GanttSegment[] {
-  const gantt: GanttSegment[] = []
+function schedulePriorityPreemptive(
+  processes: Process[],
+  aging: AgingConfig | undefined,
+  engine: EngineOptions
+): EngineResult {
+  return runSimulation(processes, priorityPolicy(true, aging), engine)
+}
 
-  // Create a copy with remaining burst time
-  interface PriorityProcess extends Process {
-    remainingBurst: number
-  }
+/**
+ * Effective priority of a process that has waited `waiting` in the ready
+ * queue, under `aging` (the base priority when aging is off)
+ */
+export function agedPriority(
+  priority: number,
+  waiting: number,
+  aging: AgingConfig | undefined
+): number {
+  if (!aging || aging.step <= 0 || aging.interval <= 0) return priority
+  return Math.max(0, priority - aging.step * Math.floor(waiting / aging.interval))
+}
 
-  const allProcesses: PriorityProcess[] = processes
-    .map((p) => ({ ...p, remainingBurst: p.burstTime }))
-    .sort((a, b) => {
-      if (a.arrivalTime !== b.arrivalTime) {
-        return a.arrivalTime - b.arrivalTime
-      }
-      return a.insertionOrder - b.insertionOrder
-    })
-
-  let currentTime = 0
-  let completed = 0
-  const n = allProcesses.length
-
-  while (completed < n) {
-    // Find processes that have arrived and have remaining burst time
-    const available = allProcesses.filter(
-      (p) => p.arrivalTime <= currentTime && p.remainingBurst > 0
-    )
-
-    if (available.length === 0) {
-      // No process available, find next arrival
-      const nextArrival = Math.min(
-        ...allProcesses.filter((p) => p.remainingBurst > 0).map((p) => p.arrivalTime)
-      )
-      gantt.push({
-        pid: null,
-        start: currentTime,
-        end: nextArrival
-      })
-      currentTime = nextArrival
-      continue
+/**
+ * Policy shared by both Priority variants, with optional aging.
+ * While waiting, a process's effective priority improves by `step` every
+ * `interval` units (never below 0). A dispatched process keeps the priority
+ * it was picked with and ages again from its base priority once it is back
+ * in the ready queue.
+ */
+function priorityPolicy(preemptive: boolean, aging: AgingConfig | undefined): SchedulingPolicy {
+  if (!aging || aging.step <= 0 || aging.interval <= 0) {
+    return {
+      preemptive,
+      // Tie-break: arrival time, then insertion order
+      compare: (a, b) => a.priority - b.priority || byArrival(a, b),
+      sortedQueue: true
     }
+  }
 
-    // Select the one with highest priority (lowest number)
-    // Tie-break: arrival time, then insertion order
-    available.sort((a, b) => {
-      if (a.priority !== b.priority) {
-        return a.priority - b.priority
-      }
-      if (a.arrivalTime !== b.arrivalTime) {
-        return a.arrivalTime - b.arrivalTime
-      }
-      return a.insertionOrder - b.insertionOrder
-    })
-
-    const selected = available[0]
-
-    // Find the next event time (next arrival or completion)
-    const nextArrivals = allProcesses.filter(
-      (p) => p.arrivalTime > currentTime && p.remainingBurst > 0
-    )
-    const nextArrivalTime = nextArrivals.length > 0
-      ? Math.min(...nextArrivals.map((p) => p.arrivalTime))
-      : Infinity
-
-    // Run until next arrival or completion, whichever is sooner
-    const runTime = Math.min(selected.remainingBurst, nextArrivalTime - currentTime)
-
-    // Merge with previous segment if same process
-    const lastSegment = gantt[gantt.length - 1]
-    if (lastSegment && lastSegment.pid === selected.pid && lastSegment.end === currentTime) {
-      lastSegment.end = currentTime + runTime
-    } else {
-      gantt.push({
-        pid: selected.pid,
-        start: currentTime,
-        end: currentTime + runTime
-      })
-    }
+  const { interval } = aging
+  // When each waiting process entered the ready queue
+  const readySince = new Map<string, number>()
+  // Effective priority each running process was dispatched with
+  const dispatchedWith = new Map<string, number>()
+
+  const effectivePriority = (proc: Process, now: number) => {
+    const since = readySince.get(jobId(proc))
+    if (since === undefined) return dispatchedWith.get(jobId(proc)) ?? proc.priority
+    return agedPriority(proc.priority, now - since, aging)
+  }
 
-    currentTime += runTime
-    selected.remainingBurst -= runTime
+  const policy: SchedulingPolicy = {
+    preemptive,
+    // Waiting processes tie-break by arrival; a tie never preempts the running one
+    compare: (a, b, now) =>
+      effectivePriority(a, now) - effectivePriority(b, now) ||
+      (readySince.has(jobId(a)) && readySince.has(jobId(b)) ? byArrival(a, b) : 0),
+    onReady: (proc, now) => {
+      readySince.set(jobId(proc), now)
+    },
+    onDispatch: (proc, now) => {
+      dispatchedWith.set(jobId(proc), effectivePriority(proc, now))
+      readySince.delete(jobId(proc))
+    },
+    describeDispatch: (proc) =>
+      `Effective priority ${dispatchedWith.get(jobId(proc))} (base ${proc.priority})`
+  }
 
-    if (selected.remainingBurst === 0) {
-      completed++
+  // A waiting process may overtake the running one between other events
+  if (preemptive) {
+    policy.nextEventTime = (now) => {
+      let next = Infinity
+      readySince.forEach((since) => {
+        next = Math.min(next, since + (Math.floor((now - since) / interval) + 1) * interval)
+      })
+      return next
     }
   }
 
-  return gantt
+  return policy
 }
 
 /**
  * Round Robin - Preemptive
  * Each process gets a time quantum, then goes to the back of the queue
  */
-function scheduleRoundRobin(processes: Process[], quantum: number): GanttSegment[] {
-  const gantt: GanttSegment[] = []
-
-  // Create a copy with remaining burst time
-  interface RRProcess extends Process {
-    remainingBurst: number
-  }
+function scheduleRoundRobin(
+  processes: Process[],
+  quantum: number,
+  engine: EngineOptions
+): EngineResult {
+  // Time used in the current slice, per process
+  const used = new Map<string, number>()
+  const slice = Math.max(1, quantum)
+
+  return runSimulation(
+    processes,
+    {
+      preemptive: false,
+      sliceLeft: (proc) => slice - (used.get(jobId(proc)) ?? 0),
+      onDispatch: (proc) => used.set(jobId(proc), 0),
+      onRun: (proc, duration) => used.set(jobId(proc), (used.get(jobId(proc)) ?? 0) + duration)
+    },
+    engine
+  )
+}
 
-  const allProcesses: RRProcess[] = processes
-    .map((p) => ({ ...p, remainingBurst: p.burstTime }))
-    .sort((a, b) => {
-      if (a.arrivalTime !== b.arrivalTime) {
-        return a.arrivalTime - b.arrivalTime
+/**
+ * Multilevel Feedback Queue (MLFQ) - Preemptive
+ * New processes enter the top queue. A process that uses up its allotment at
+ * an RR level is demoted one level; FCFS levels run a process until it ends.
+ * Arrivals preempt processes running in lower queues, and an optional
+ * periodic boost moves every process back to the top queue.
+ */
+function scheduleMLFQ(
+  processes: Process[],
+  config: MLFQConfig,
+  engine: EngineOptions
+): EngineResult {
+  const levels = config.levels.length > 0 ? config.levels : DEFAULT_MLFQ_CONFIG.levels
+  const lastLevel = levels.length - 1
+  const boostInterval = config.boostInterval > 0 ? config.boostInterval : Infinity
+
+  // Queue level and allotment used at that level, per process
+  const level = new Map<string, number>()
+  const allotmentUsed = new Map<string, number>()
+  const levelOf = (proc: Process) => level.get(jobId(proc)) ?? 0
+
+  return runSimulation(
+    processes,
+    {
+      preemptive: true,
+      // Higher queues first; FIFO within a queue
+      compare: (a, b) => levelOf(a) - levelOf(b),
+      sliceLeft: (proc) => {
+        const current = levels[levelOf(proc)]
+        return current.policy === "FCFS"
+          ? Infinity
+          : Math.max(1, current.quantum) - (allotmentUsed.get(jobId(proc)) ?? 0)
+      },
+      onRun: (proc, duration) =>
+        allotmentUsed.set(jobId(proc), (allotmentUsed.get(jobId(proc)) ?? 0) + duration),
+      // Used its whole allotment: demote (the last level keeps it)
+      onExpire: (proc) => {
+        level.set(jobId(proc), Math.min(levelOf(proc) + 1, lastLevel))
+        allotmentUsed.set(jobId(proc), 0)
+      },
+      nextEventTime: (now) => (Math.floor(now / boostInterval) + 1) * boostInterval,
+      // Priority boost: everyone back to the top queue, keeping level order.
+      // The running process keeps the CPU with a fresh allotment.
+      onEvent: (_now, readyQueues) => {
+        readyQueues.forEach((ready) => ready.sort((a, b) => levelOf(a) - levelOf(b)))
+        level.clear()
+        allotmentUsed.clear()
       }
-      return a.insertionOrder - b.insertionOrder
-    })
-
-  const readyQueue: RRProcess[] = []
-  let currentTime = 0
-  let processIndex = 0
-
-  // Function to enqueue arriving processes
-  const enqueueArrivals = (upToTime: number) => {
-    while (
-      processIndex < allProcesses.length &&
-      allProcesses[processIndex].arrivalTime <= upToTime
-    ) {
-      readyQueue.push(allProcesses[processIndex])
-      processIndex++
-    }
-  }
+    },
+    engine
+  )
+}
 
-  // Initial enqueue at time 0
-  enqueueArrivals(0)
-
-  while (readyQueue.length > 0 || processIndex < allProcesses.length) {
-    if (readyQueue.length === 0) {
-      // No process ready, wait for next arrival
-      const nextArrival = allProcesses[processIndex].arrivalTime
-      gantt.push({
-        pid: null,
-        start: currentTime,
-        end: nextArrival
-      })
-      currentTime = nextArrival
-      enqueueArrivals(currentTime)
-      continue
-    }
+/**
+ * Tickets held by a process (Lottery and Stride scheduling)
+ */
+export function ticketsOf(proc: Process): number {
+  return proc.tickets ?? DEFAULT_TICKETS
+}
 
-    // Dequeue the next process
-    const current = readyQueue.shift()!
+/**
+ * Lottery Scheduling - Preemptive
+ * Whenever a CPU is free, a winning ticket is drawn from all tickets held by
+ * the ready processes, and its holder runs for one quantum. Each process's
+ * CPU share approaches its share of the tickets over time. Draws come from a
+ * seeded generator, so a seed always replays the same run.
+ */
+function scheduleLottery(
+  processes: Process[],
+  quantum: number,
+  seed: number,
+  engine: EngineOptions
+): EngineResult {
+  const random = createRandom(seed)
+  const used = new Map<string, number>()
+  const slice = Math.max(1, quantum)
+  // The draw that picked each process, for the trace
+  const draws = new Map<string, string>()
+
+  return runSimulation(
+    processes,
+    {
+      preemptive: false,
+      select: (candidates) => {
+        const total = candidates.reduce((sum, proc) => sum + ticketsOf(proc), 0)
+        const winning = Math.floor(random() * total)
+        let counted = 0
+        const winner =
+          candidates.find((proc) => (counted += ticketsOf(proc)) > winning) ??
+          candidates[candidates.length - 1]
+        draws.set(jobId(winner), `Ticket ${winning} of ${total} (holds ${ticketsOf(winner)})`)
+        return winner
+      },
+      sliceLeft: (proc) => slice - (used.get(jobId(proc)) ?? 0),
+      onDispatch: (proc) => used.set(jobId(proc), 0),
+      onRun: (proc, duration) => used.set(jobId(proc), (used.get(jobId(proc)) ?? 0) + duration),
+      describeDispatch: (proc) => draws.get(jobId(proc))
+    },
+    engine
+  )
+}
 
-    // Calculate execution time for this slice
-    const execTime = Math.min(quantum, current.remainingBurst)
+/**
+ * Stride Scheduling - Preemptive
+ * The deterministic counterpart of lottery scheduling. Each process has a
+ * stride of STRIDE_CONSTANT / tickets; the process with the lowest pass runs
+ * for one quantum, and its pass then grows by its stride (pro rata for a
+ * shorter run). A process that arrives or returns from I/O starts at the pass
+ * of the latest dispatch, so time spent away earns it no credit.
+ */
+function scheduleStride(
+  processes: Process[],
+  quantum: number,
+  engine: EngineOptions
+): EngineResult {
+  const pass = new Map<string, number>()
+  const used = new Map<string, number>()
+  const slice = Math.max(1, quantum)
+  const strideOf = (proc: Process) => STRIDE_CONSTANT / ticketsOf(proc)
+  const passOf = (proc: Process) => pass.get(jobId(proc)) ?? 0
+  // Processes requeued after their slice expired keep their pass
+  const expired = new Set<string>()
+  let globalPass = 0
+
+  return runSimulation(
+    processes,
+    {
+      preemptive: false,
+      // Tie-break: arrival time, then insertion order
+      compare: (a, b) => passOf(a) - passOf(b) || byArrival(a, b),
+      // A pass only grows while its process runs
+      sortedQueue: true,
+      sliceLeft: (proc) => slice - (used.get(jobId(proc)) ?? 0),
+      onReady: (proc) => {
+        if (!expired.delete(jobId(proc))) pass.set(jobId(proc), Math.max(passOf(proc), globalPass))
+      },
+      onDispatch: (proc) => {
+        used.set(jobId(proc), 0)
+        globalPass = passOf(proc)
+      },
+      onRun: (proc, duration) => {
+        used.set(jobId(proc), (used.get(jobId(proc)) ?? 0) + duration)
+        pass.set(jobId(proc), passOf(proc) + (strideOf(proc) * duration) / slice)
+      },
+      onExpire: (proc) => {
+        expired.add(jobId(proc))
+      },
+      describeDispatch: (proc) =>
+        `Pass ${Number(passOf(proc).toFixed(2))}, stride ${Number(strideOf(proc).toFixed(2))}`
+    },
+    engine
+  )
+}
 
-    gantt.push({
-      pid: current.pid,
-      start: currentTime,
-      end: currentTime + execTime
-    })
+/**
+ * Priority read as nice 0 by CFS. Priorities are never negative, so nice
+ * is the priority minus this offset: 0 is nice -20, 39 and above nice 19.
+ */
+export const NICE_OFFSET = 20
 
-    currentTime += execTime
-    current.remainingBurst -= execTime
+/**
+ * CFS nice value of a process, from its (rounded) priority. As with priority,
+ * a lower number means a larger share of the CPU.
+ */
+export function niceOf(proc: Process): number {
+  return Math.min(19, Math.max(-20, Math.round(proc.priority) - NICE_OFFSET))
+}
 
-    // Enqueue any processes that arrived during this execution
-    enqueueArrivals(currentTime)
+/**
+ * CFS load weight of a process, from its nice value
+ */
+export function weightOf(proc: Process): number {
+  return NICE_TO_WEIGHT[niceOf(proc) + 20]
+}
 
-    // If process still has remaining time, put it back in queue
-    if (current.remainingBurst > 0) {
-      readyQueue.push(current)
-    }
+/**
+ * Completely Fair Scheduler (CFS) - Preemptive
+ * An approximation of the Linux scheduler. The ready queue is kept ordered by
+ * virtual runtime, like the kernel's red-black tree, and the leftmost process
+ * runs. Running for t advances vruntime by t * NICE_0_WEIGHT / weight, so
+ * heavier (lower nice) processes age more slowly and get more CPU. A
+ * dispatched process gets a slice of the period in proportion to its weight
+ * among the runnable processes, where the period is the target latency,
+ * stretched to minGranularity per process when many are runnable; no slice is
+ * shorter than minGranularity. New processes start at min_vruntime, and a
+ * process back from I/O at no less than min_vruntime - targetLatency / 2, so
+ * sleeping earns only a bounded credit. Wakeup preemption is not modelled:
+ * arrivals wait for the running slice to end.
+ */
+function scheduleCFS(
+  processes: Process[],
+  targetLatency: number,
+  minGranularity: number,
+  engine: EngineOptions
+): EngineResult {
+  const vruntime = new Map<string, number>()
+  const used = new Map<string, number>()
+  const slices = new Map<string, number>()
+  const vruntimeOf = (proc: Process) => vruntime.get(jobId(proc)) ?? 0
+  // Processes requeued after their slice expired keep their vruntime
+  const expired = new Set<string>()
+  let minVruntime = 0
+
+  const round = (value: number) => Number(value.toFixed(2))
+  // Tie-break: arrival time, then insertion order
+  const compare = (a: Process, b: Process) => vruntimeOf(a) - vruntimeOf(b) || byArrival(a, b)
+
+  return runSimulation(
+    processes,
+    {
+      preemptive: false,
+      compare,
+      // A vruntime only grows while its process runs
+      sortedQueue: true,
+      // Leftmost process, with a slice sized by the runnable set it was picked from
+      select: (candidates) => {
+        const next = candidates[0]
+        const totalWeight = candidates.reduce((sum, proc) => sum + weightOf(proc), 0)
+        const period = Math.max(targetLatency, candidates.length * minGranularity)
+        slices.set(jobId(next), Math.max(minGranularity, (period * weightOf(next)) / totalWeight))
+        minVruntime = Math.max(minVruntime, vruntimeOf(next))
+        return next
+      },
+      sliceLeft: (proc) => (slices.get(jobId(proc)) ?? Infinity) - (used.get(jobId(proc)) ?? 0),
+      onReady: (proc) => {
+        if (expired.delete(jobId(proc))) return
+        const placed = vruntime.has(jobId(proc))
+          ? Math.max(vruntimeOf(proc), minVruntime - targetLatency / 2)
+          : minVruntime
+        vruntime.set(jobId(proc), placed)
+      },
+      onDispatch: (proc) => used.set(jobId(proc), 0),
+      onRun: (proc, duration) => {
+        used.set(jobId(proc), (used.get(jobId(proc)) ?? 0) + duration)
+        vruntime.set(jobId(proc), vruntimeOf(proc) + (duration * NICE_0_WEIGHT) / weightOf(proc))
+      },
+      onExpire: (proc) => {
+        expired.add(jobId(proc))
+      },
+      describeDispatch: (proc) =>
+        `vruntime ${round(vruntimeOf(proc))}, slice ${round(slices.get(jobId(proc)) ?? 0)}, ` +
+        `nice ${niceOf(proc)} (weight ${weightOf(proc)})`
+    },
+    engine
+  )
+}
+
+/**
+ * Earliest Deadline First (EDF) - Preemptive
+ * Always runs the job with the earliest absolute deadline (release plus
+ * relative deadline); processes without a deadline run only when no job
+ * with one is ready
+ */
+function scheduleEDF(processes: Process[], engine: EngineOptions): EngineResult {
+  // Tie-break: arrival time, then insertion order
+  const compare = (a: Process, b: Process) => {
+    const [da, db] = [absoluteDeadline(a), absoluteDeadline(b)]
+    return da !== db ? da - db : byArrival(a, b)
   }
+  return runSimulation(
+    processes,
+    {
+      preemptive: true,
+      compare,
+      sortedQueue: true,
+      describeDispatch: (proc) =>
+        absoluteDeadline(proc) === Infinity ? undefined : `Deadline ${absoluteDeadline(proc)}`
+    },
+    engine
+  )
+}
 
-  return gantt
+/**
+ * Rate Monotonic (RM) - Preemptive
+ * Fixed priorities by period: the shorter a task's period, the higher its
+ * priority. Aperiodic processes rank below every periodic task.
+ */
+function scheduleRM(processes: Process[], engine: EngineOptions): EngineResult {
+  const periodOf = (proc: Process) => proc.period ?? Infinity
+  // Tie-break: arrival time, then insertion order
+  const compare = (a: Process, b: Process) =>
+    periodOf(a) !== periodOf(b) ? periodOf(a) - periodOf(b) : byArrival(a, b)
+  return runSimulation(
+    processes,
+    {
+      preemptive: true,
+      compare,
+      sortedQueue: true,
+      describeDispatch: (proc) =>
+        proc.period === undefined
+          ? undefined
+          : `Period ${proc.period}, deadline ${absoluteDeadline(proc)}`
+    },
+    engine
+  )
 }
 
 /**
- * Compute all metrics from the Gantt chart
+ * Compute all metrics from the Gantt chart. `jobs` are the processes as
+ * scheduled, with every periodic task expanded into its jobs.
  */
 function computeMetrics(
   processes: Process[],
-  ganttChart: GanttSegment[]
+  jobs: Process[],
+  { ganttChart, ioChart, events }: EngineResult,
+  cores: number,
+  starvationThreshold: number
 ): SimulationResult {
   const processMetrics: ProcessMetrics[] = []
   const firstStartTime = new Map<string, number>()
@@ -489,23 +1058,52 @@ function computeMetrics(
     completionTime.set(segment.pid, segment.end)
   }
 
+  // Completion time of each job (see jobId()); a task's jobs may finish in any order
+  const jobCompletions = new Map<string, number>()
+  for (const event of events) {
+    if (event.type === "complete") jobCompletions.set(jobId(event), event.time)
+  }
+
   // Calculate metrics for each process
   for (const proc of processes) {
     const ct = completionTime.get(proc.pid) || 0
+    const released = jobs.filter((job) => job.pid === proc.pid)
+    const perJob = burstTotals(burstSequence(proc))
+    const cpu = perJob.cpu * released.length
+    const io = perJob.io * released.length
     const turnaroundTime = ct - proc.arrivalTime
-    const waitingTime = turnaroundTime - proc.burstTime
+    // Time blocked on I/O or between jobs is neither running nor waiting in the ready queue
+    const waitingTime =
+      released.reduce(
+        (sum, job) => sum + (jobCompletions.get(jobId(job)) ?? ct) - job.arrivalTime,
+        0
+      ) -
+      cpu -
+      io
     const responseTime = (firstStartTime.get(proc.pid) || 0) - proc.arrivalTime
+    const wait = Math.max(0, waitingTime) // Ensure non-negative
 
-    processMetrics.push({
+    const metrics: ProcessMetrics = {
       pid: proc.pid,
       arrivalTime: proc.arrivalTime,
-      burstTime: proc.burstTime,
+      burstTime: cpu,
       priority: proc.priority,
       completionTime: ct,
-      waitingTime: Math.max(0, waitingTime), // Ensure non-negative
+      waitingTime: wait,
+      ioTime: io,
       turnaroundTime,
-      responseTime: Math.max(0, responseTime) // Ensure non-negative
-    })
+      responseTime: Math.max(0, responseTime), // Ensure non-negative
+      slowdown: (wait + cpu + io) / cpu,
+      starved: wait > starvationThreshold
+    }
+    if (isRealTime(proc)) {
+      metrics.jobs = released.map((job) => {
+        const completion = jobCompletions.get(jobId(job)) ?? ct
+        const deadline = absoluteDeadline(job)
+        return { release: job.arrivalTime, deadline, completion, missed: completion > deadline }
+      })
+    }
+    processMetrics.push(metrics)
   }
 
   // Sort by PID for consistent display
@@ -517,20 +1115,51 @@ function computeMetrics(
   const avgTurnaround = processMetrics.reduce((sum, p) => sum + p.turnaroundTime, 0) / n
   const avgResponse = processMetrics.reduce((sum, p) => sum + p.responseTime, 0) / n
 
-  // Calculate CPU utilization
-  const totalTime = ganttChart.length > 0 ? ganttChart[ganttChart.length - 1].end : 0
-  const busyTime = ganttChart
-    .filter((s) => s.pid !== null)
-    .reduce((sum, s) => sum + (s.end - s.start), 0)
-  const cpuUtilization = totalTime > 0 ? (busyTime / totalTime) * 100 : 0
+  // Fairness: Jain's index over slowdowns, and the tail of the waiting times
+  const slowdownSum = processMetrics.reduce((sum, p) => sum + p.slowdown, 0)
+  const slowdownSquares = processMetrics.reduce((sum, p) => sum + p.slowdown ** 2, 0)
+  const fairnessIndex = (slowdownSum * slowdownSum) / (n * slowdownSquares)
+  const waits = processMetrics.map((p) => p.waitingTime).sort((a, b) => a - b)
+  const maxWaitingTime = waits[n - 1]
+  const p95WaitingTime = waits[Math.ceil(0.95 * n) - 1]
+
+  // Calculate CPU utilization (per core, and averaged over all cores)
+  const totalTime = ganttChart.reduce((max, s) => Math.max(max, s.end), 0)
+  const busyPerCore = new Array<number>(cores).fill(0)
+  for (const segment of ganttChart) {
+    if (segment.pid !== null) {
+      busyPerCore[segment.core ?? 0] += segment.end - segment.start
+    }
+  }
+  const busyTime = busyPerCore.reduce((sum, busy) => sum + busy, 0)
+  const capacity = totalTime * cores
+  const cpuUtilization = capacity > 0 ? (busyTime / capacity) * 100 : 0
+  const coreUtilization = busyPerCore.map((busy) =>
+    totalTime > 0 ? (busy / totalTime) * 100 : 0
+  )
+
+  // Context switch overhead counts as busy CPU time, but not as useful work
+  const switches = ganttChart.filter((s) => s.kind === "switch")
+  const switchOverhead = switches.reduce((sum, s) => sum + (s.end - s.start), 0)
+  const cpuUtilizationWithOverhead =
+    capacity > 0 ? ((busyTime + switchOverhead) / capacity) * 100 : 0
 
   return {
     ganttChart,
+    ioChart,
+    events,
     processMetrics,
     averageWaitingTime: avgWaiting,
     averageTurnaroundTime: avgTurnaround,
     averageResponseTime: avgResponse,
     cpuUtilization,
+    cpuUtilizationWithOverhead,
+    coreUtilization,
+    contextSwitches: switches.length,
+    switchOverhead,
+    fairnessIndex,
+    maxWaitingTime,
+    p95WaitingTime,
     totalTime
   }
 }
@@ -560,12 +1189,70 @@ export function validateProcess(process: Partial<Process>): {
     errors.push("Priority must be >= 0")
   }
 
+  if (process.affinity && process.affinity.some((core) => !Number.isInteger(core) || core < 0)) {
+    errors.push("Affinity must list core numbers >= 0")
+  }
+
+  if (
+    process.tickets !== undefined &&
+    !(Number.isInteger(process.tickets) && process.tickets >= 1)
+  ) {
+    errors.push("Tickets must be a whole number >= 1")
+  }
+
+  if (
+    process.period !== undefined &&
+    !(Number.isInteger(process.period) && process.period >= 1)
+  ) {
+    errors.push("Period must be a whole number >= 1")
+  }
+
+  if (process.deadline !== undefined && !(process.deadline > 0)) {
+    errors.push("Deadline must be > 0")
+  }
+
+  if (process.period !== undefined && process.bursts && process.bursts.length > 1) {
+    errors.push("A periodic task cannot have I/O bursts")
+  }
+
+  if (process.bursts && process.bursts.length > 0) {
+    if (process.bursts.length % 2 === 0) {
+      errors.push("Burst sequence must start and end with a CPU burst")
+    }
+    if (process.bursts.some((length) => !(length > 0))) {
+      errors.push("Every CPU and I/O burst must be > 0")
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors
   }
 }
 
+/**
+ * Parse a list of numbers >= 0 separated by spaces or commas, such as "4 3 2"
+ * or "CPU 4, IO 3, CPU 2" (the CPU / IO labels are skipped). Any other token,
+ * such as "-3" or "x", is returned in `invalid` rather than dropped or reread.
+ */
+export function parseNumberList(text: string): { values: number[]; invalid: string[] } {
+  const values: number[] = []
+  const invalid: string[] = []
+  for (const token of text.split(/[\s,;]+/)) {
+    if (token === "" || /^(cpu|io)$/i.test(token)) continue
+    if (/^\d+(\.\d+)?$/.test(token)) values.push(Number(token))
+    else invalid.push(token)
+  }
+  return { values, invalid }
+}
+
+/**
+ * Format a burst sequence as "CPU 4, IO 3, CPU 2"
+ */
+export function formatBurstSequence(bursts: number[]): string {
+  return bursts.map((length, i) => `${i % 2 === 0 ? "CPU" : "IO"} ${length}`).join(", ")
+}
+
 /**
  * Example dataset for demonstration
  */
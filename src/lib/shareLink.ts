@@ -0,0 +1,89 @@
+import { toProcessFile, readProcessFile, type ProcessFileResult } from "./processFiles"
+import { readOptions } from "./scenarios"
+import type { Process, Algorithm, SimulationOptions } from "../types"
+
+/**
+ * Name of the URL hash parameter holding an encoded scenario
+ */
+const HASH_PARAM = "s"
+
+/**
+ * A decoded scenario, with the simulation options it was shared with (absent
+ * in links made before options were shared)
+ */
+export interface SharedScenario extends ProcessFileResult {
+  options?: SimulationOptions
+}
+
+/**
+ * Encode a scenario as deflate-compressed, base64url JSON: the same document
+ * as a JSON export, so links are validated exactly like imported files, plus
+ * the simulation options, checked like the autosaved ones
+ */
+export async function encodeScenario(
+  processes: Process[],
+  algorithm: Algorithm,
+  quantum: number,
+  options: SimulationOptions
+): Promise<string> {
+  const json = JSON.stringify({ ...toProcessFile(processes, algorithm, quantum), options })
+  const compressed = await pipe(
+    new TextEncoder().encode(json),
+    new CompressionStream("deflate-raw")
+  )
+  return toBase64Url(compressed)
+}
+
+/**
+ * Decode a scenario produced by encodeScenario()
+ */
+export async function decodeScenario(encoded: string): Promise<SharedScenario> {
+  let data: unknown
+  try {
+    const bytes = await pipe(fromBase64Url(encoded), new DecompressionStream("deflate-raw"))
+    data = JSON.parse(new TextDecoder().decode(bytes))
+  } catch {
+    return { processes: [], errors: ["The link is damaged or incomplete"] }
+  }
+  const scenario = readProcessFile(data)
+  if (scenario.errors.length > 0) return scenario
+  const { options } = data as { options?: unknown }
+  return options === undefined ? scenario : { ...scenario, options: readOptions(options) }
+}
+
+/**
+ * URL hash for an encoded scenario, e.g. "#s=..."
+ */
+export function scenarioHash(encoded: string): string {
+  return `#${HASH_PARAM}=${encoded}`
+}
+
+/**
+ * Encoded scenario in a URL hash, or null if the hash has none
+ */
+export function readScenarioHash(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""))
+  return params.get(HASH_PARAM) || null
+}
+
+/**
+ * Run bytes through a compression or decompression stream
+ */
+async function pipe(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ""
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
@@ -0,0 +1,99 @@
+import { ticketsOf } from "./scheduler"
+import { processLanes } from "./swimlanes"
+import type { Process, SimulationResult } from "../types"
+
+/**
+ * How closely a process's CPU time matched its tickets over a run
+ */
+export interface ProcessShare {
+  pid: string
+  tickets: number
+  ticketShare: number // share of all tickets (0-1)
+  entitled: number // CPU time its tickets were worth while it was runnable
+  received: number // CPU time it actually got
+  error: number // received - entitled
+}
+
+/**
+ * Received minus entitled CPU time of every process up to `time`
+ */
+export interface ShareSample {
+  time: number
+  lag: Record<string, number>
+}
+
+/**
+ * Share tracking of a run: per-process totals and the lag over time
+ */
+export interface ShareTracking {
+  processes: ProcessShare[]
+  samples: ShareSample[]
+}
+
+/**
+ * Compare the CPU time each process received with what its tickets entitled
+ * it to. At every moment the CPUs are divided among the runnable (running or
+ * ready) processes in proportion to their tickets, a process getting at most
+ * one whole CPU; time blocked on I/O, idle or before arrival entitles it to nothing.
+ * A proportional-share scheduler keeps `error` close to 0. `samples` holds
+ * the running error at up to `maxSamples` points in time.
+ */
+export function shareTracking(
+  processes: Process[],
+  result: SimulationResult,
+  maxSamples = 200
+): ShareTracking {
+  const tickets = new Map(processes.map((p) => [p.pid, ticketsOf(p)]))
+  const allTickets = [...tickets.values()].reduce((sum, t) => sum + t, 0)
+  const cores = Math.max(1, result.coreUtilization.length)
+  const lanes = processLanes(result.processMetrics, result.ganttChart, result.ioChart)
+
+  const entitled = new Map(lanes.map((lane) => [lane.pid, 0]))
+  const received = new Map(lanes.map((lane) => [lane.pid, 0]))
+  const lagNow = () =>
+    Object.fromEntries(lanes.map((l) => [l.pid, received.get(l.pid)! - entitled.get(l.pid)!]))
+
+  // Between consecutive span boundaries every process is in a single state
+  const times = [
+    ...new Set(lanes.flatMap((lane) => lane.spans.flatMap((s) => [s.start, s.end])))
+  ].sort((a, b) => a - b)
+  const next = lanes.map(() => 0) // index of the first span of each lane not yet passed
+  const every = Math.max(1, Math.ceil(times.length / maxSamples))
+  const samples: ShareSample[] = [{ time: times[0] ?? 0, lag: lagNow() }]
+
+  for (let i = 1; i < times.length; i++) {
+    const [start, end] = [times[i - 1], times[i]]
+    const runnable: { pid: string; running: boolean }[] = []
+    lanes.forEach((lane, index) => {
+      while (next[index] < lane.spans.length && lane.spans[next[index]].end <= start) {
+        next[index]++
+      }
+      const span = lane.spans[next[index]]
+      if (span && span.start <= start && (span.state === "running" || span.state === "waiting")) {
+        runnable.push({ pid: lane.pid, running: span.state === "running" })
+      }
+    })
+
+    const weight = runnable.reduce((sum, r) => sum + (tickets.get(r.pid) ?? 0), 0)
+    for (const { pid, running } of runnable) {
+      const share = Math.min(1, (cores * (tickets.get(pid) ?? 0)) / weight)
+      entitled.set(pid, entitled.get(pid)! + share * (end - start))
+      if (running) received.set(pid, received.get(pid)! + end - start)
+    }
+    if (i % every === 0 || i === times.length - 1) {
+      samples.push({ time: end, lag: lagNow() })
+    }
+  }
+
+  return {
+    processes: lanes.map((lane) => ({
+      pid: lane.pid,
+      tickets: tickets.get(lane.pid) ?? 0,
+      ticketShare: allTickets > 0 ? (tickets.get(lane.pid) ?? 0) / allTickets : 0,
+      entitled: entitled.get(lane.pid)!,
+      received: received.get(lane.pid)!,
+      error: received.get(lane.pid)! - entitled.get(lane.pid)!
+    })),
+    samples
+  }
+}
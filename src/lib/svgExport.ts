@@ -0,0 +1,107 @@
+/**
+ * Presentation properties copied from the page's computed styles, so the
+ * exported file looks the same without the app's stylesheet
+ */
+const STYLE_PROPERTIES = [
+  "color",
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-dasharray",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor"
+]
+
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg"
+
+/**
+ * Serialize a rendered SVG as a standalone document. Styles that come from
+ * CSS classes are inlined and the classes dropped; `background` (any CSS
+ * color) fills the canvas behind the drawing.
+ */
+export function serializeSvg(svg: SVGSVGElement, background?: string): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement
+  const sources = [svg, ...Array.from(svg.querySelectorAll("*"))]
+  const copies = [clone, ...Array.from(clone.querySelectorAll("*"))]
+
+  sources.forEach((source, i) => {
+    const computed = getComputedStyle(source)
+    const style = STYLE_PROPERTIES.map((name) => [name, computed.getPropertyValue(name)])
+      .filter(([, value]) => value !== "")
+      .map(([name, value]) => `${name}: ${value}`)
+      .join("; ")
+    const copy = copies[i]
+    copy.removeAttribute("class")
+    if (style !== "") copy.setAttribute("style", style)
+  })
+
+  const { width, height } = svgSize(svg)
+  clone.setAttribute("xmlns", SVG_NAMESPACE)
+  clone.setAttribute("width", String(width))
+  clone.setAttribute("height", String(height))
+  clone.setAttribute("viewBox", `0 0 ${width} ${height}`)
+
+  if (background) {
+    const rect = document.createElementNS(SVG_NAMESPACE, "rect")
+    rect.setAttribute("width", "100%")
+    rect.setAttribute("height", "100%")
+    rect.setAttribute("fill", background)
+    clone.insertBefore(rect, clone.firstChild)
+  }
+
+  const markup = new XMLSerializer().serializeToString(clone)
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${markup}\n`
+}
+
+/**
+ * Rasterize a standalone SVG document (see serializeSvg()) to a PNG.
+ * `scale` > 1 gives sharper images for slides and print.
+ */
+export function svgToPng(
+  svgText: string,
+  width: number,
+  height: number,
+  scale = 2
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svgText], { type: "image/svg+xml" }))
+    const image = new Image()
+    image.onload = () => {
+      const canvas = document.createElement("canvas")
+      canvas.width = Math.ceil(width * scale)
+      canvas.height = Math.ceil(height * scale)
+      const context = canvas.getContext("2d")
+      if (!context) {
+        URL.revokeObjectURL(url)
+        reject(new Error("Canvas is not available"))
+        return
+      }
+      context.scale(scale, scale)
+      context.drawImage(image, 0, 0, width, height)
+      URL.revokeObjectURL(url)
+      canvas.toBlob((blob) => {
+        if (blob) resolve(blob)
+        else reject(new Error("Could not create the PNG image"))
+      }, "image/png")
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error("Could not render the SVG image"))
+    }
+    image.src = url
+  })
+}
+
+/**
+ * Size of an SVG from its width and height attributes
+ */
+export function svgSize(svg: SVGSVGElement): { width: number; height: number } {
+  return {
+    width: Number(svg.getAttribute("width")) || 0,
+    height: Number(svg.getAttribute("height")) || 0
+  }
+}
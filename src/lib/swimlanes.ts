@@ -0,0 +1,99 @@
+import type { GanttSegment, ProcessMetrics } from "../types"
+
+/**
+ * What a process is doing during a span of its lifetime. A periodic task is
+ * idle between finishing a job and the release of the next one.
+ */
+export type LaneState = "running" | "waiting" | "blocked" | "idle"
+
+/**
+ * One span of a process's swimlane
+ */
+export interface LaneSpan {
+  state: LaneState
+  start: number
+  end: number
+  core?: number // CPU the process ran on (running spans of multi-core runs)
+}
+
+/**
+ * A process's row in the swimlane view: arrival, completion and what it did
+ * in between. Waiting spans add up to the process's waiting time.
+ */
+export interface ProcessLane {
+  pid: string
+  arrival: number
+  completion: number
+  waitingTime: number
+  spans: LaneSpan[]
+}
+
+// Gaps shorter than this come from floating point noise, not real waiting
+const EPSILON = 1e-9
+
+/**
+ * Split each process's lifetime into running, blocked-on-I/O, idle and
+ * ready-waiting spans. Running and I/O spans come from the charts and idle
+ * spans from the jobs of periodic tasks; whatever is left between arrival and
+ * completion was spent in the ready queue (including context switches, which
+ * count as waiting).
+ */
+export function processLanes(
+  metrics: ProcessMetrics[],
+  segments: GanttSegment[],
+  ioSegments: GanttSegment[] = []
+): ProcessLane[] {
+  return metrics.map((m) => {
+    const busy: LaneSpan[] = [
+      ...segments
+        .filter((s) => s.pid === m.pid && s.kind !== "switch")
+        .map((s): LaneSpan => ({ state: "running", start: s.start, end: s.end, core: s.core })),
+      ...ioSegments
+        .filter((s) => s.pid === m.pid)
+        .map((s): LaneSpan => ({ state: "blocked", start: s.start, end: s.end })),
+      ...(m.jobs ?? [])
+        .slice(1)
+        .map((job, i): LaneSpan => ({
+          state: "idle",
+          start: m.jobs![i].completion,
+          end: job.release
+        }))
+        .filter((s) => s.end - s.start > EPSILON)
+    ].sort((a, b) => a.start - b.start)
+
+    const spans: LaneSpan[] = []
+    let time = m.arrivalTime
+    for (const span of busy) {
+      if (span.start - time > EPSILON) {
+        spans.push({ state: "waiting", start: time, end: span.start })
+      }
+      // Back-to-back runs on the same core read as one bar
+      const last = spans[spans.length - 1]
+      if (
+        last &&
+        last.state === span.state &&
+        last.core === span.core &&
+        Math.abs(last.end - span.start) < EPSILON
+      ) {
+        last.end = span.end
+      } else {
+        spans.push({ ...span })
+      }
+      time = Math.max(time, span.end)
+    }
+    if (m.completionTime - time > EPSILON) {
+      spans.push({ state: "waiting", start: time, end: m.completionTime })
+    }
+
+    const waitingTime = spans
+      .filter((s) => s.state === "waiting")
+      .reduce((sum, s) => sum + s.end - s.start, 0)
+    return {
+      pid: m.pid,
+      arrival: m.arrivalTime,
+      completion: m.completionTime,
+      waitingTime,
+      spans
+    }
+  })
+}
@@ -0,0 +1,38 @@
+/**
+ * Smallest "nice" step (1, 2 or 5 times a power of ten, at least 1) that is
+ * no smaller than `minStep`
+ */
+export function niceStep(minStep: number): number {
+  if (!(minStep > 1)) return 1
+  const power = 10 ** Math.floor(Math.log10(minStep))
+  for (const factor of [1, 2, 5, 10]) {
+    if (factor * power >= minStep) return factor * power
+  }
+  return 10 * power
+}
+
+/**
+ * Time axis labels for a chart drawn at `pxPerUnit`, at least `minSpacing`
+ * pixels apart. The end of the timeline is always labelled; it replaces the
+ * last regular marker when the two would overlap.
+ */
+export function timeMarkers(totalTime: number, pxPerUnit: number, minSpacing = 50): number[] {
+  const step = niceStep(minSpacing / pxPerUnit)
+  const markers: number[] = []
+  for (let time = 0; time <= totalTime; time += step) {
+    markers.push(time)
+  }
+  const last = markers[markers.length - 1]
+  if (last !== totalTime) {
+    if ((totalTime - last) * pxPerUnit < minSpacing && markers.length > 1) markers.pop()
+    markers.push(totalTime)
+  }
+  return markers
+}
+
+/**
+ * Keep a zoom level (pixels per time unit) within [min, max]
+ */
+export function clampZoom(pxPerUnit: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, pxPerUnit))
+}
@@ -0,0 +1,63 @@
+import { createRandom, sampleExponential, sampleInteger } from "./random"
+import type { Process, WorkloadConfig, BurstDistribution } from "../types"
+
+/**
+ * Generator settings shown when the dialog first opens
+ */
+export const DEFAULT_WORKLOAD_CONFIG: WorkloadConfig = {
+  count: 10,
+  arrivalRate: 0.5,
+  burst: { kind: "exponential", mean: 5 },
+  priorityMin: 0,
+  priorityMax: 5,
+  seed: 1
+}
+
+/**
+ * Generate a random workload. Arrivals follow a Poisson process (exponential
+ * gaps with mean 1 / arrivalRate, first arrival at 0); times are rounded to
+ * whole units and every burst is at least 1.
+ */
+export function generateWorkload(config: WorkloadConfig): Process[] {
+  const random = createRandom(config.seed)
+  const count = Math.max(0, Math.floor(config.count))
+  const priorityMin = Math.min(config.priorityMin, config.priorityMax)
+  const priorityMax = Math.max(config.priorityMin, config.priorityMax)
+  const meanGap = config.arrivalRate > 0 ? 1 / config.arrivalRate : 0
+  const digits = String(count).length
+
+  const processes: Process[] = []
+  let arrival = 0
+  for (let i = 0; i < count; i++) {
+    if (i > 0) arrival += sampleExponential(random, meanGap)
+    processes.push({
+      pid: `P${String(i + 1).padStart(digits, "0")}`,
+      arrivalTime: Math.round(arrival),
+      burstTime: Math.max(1, Math.round(sampleBurst(random, config.burst))),
+      priority: sampleInteger(random, priorityMin, priorityMax),
+      insertionOrder: i
+    })
+  }
+  return processes
+}
+
+/**
+ * Draw one burst length. Uniform bursts are whole numbers in [min, max]; the
+ * bimodal mix picks the long mode with probability `longFraction`, then draws
+ * uniformly within ±25% of its mean.
+ */
+function sampleBurst(random: () => number, burst: BurstDistribution): number {
+  switch (burst.kind) {
+    case "exponential":
+      return sampleExponential(random, burst.mean)
+    case "uniform": {
+      const min = Math.round(Math.min(burst.min, burst.max))
+      const max = Math.round(Math.max(burst.min, burst.max))
+      return sampleInteger(random, min, max)
+    }
+    case "bimodal": {
+      const mean = random() < burst.longFraction ? burst.longMean : burst.shortMean
+      return mean * (0.75 + random() * 0.5)
+    }
+  }
+}
@@ -2,19 +2,139 @@
 export interface Process {
   pid: string;
   arrivalTime: number;
-  burstTime: number;
+  burstTime: number; // total CPU time (sum of the CPU bursts when `bursts` is set)
   priority: number;
   insertionOrder: number;
+  bursts?: number[]; // alternating CPU/IO lengths, e.g. [4, 3, 2] = CPU 4, IO 3, CPU 2
+  affinity?: number[]; // cores the process may run on (default: any)
+  tickets?: number; // share for Lottery and Stride scheduling (default 100)
+  period?: number; // periodic task: a job of burstTime (the WCET) is released every period
+  deadline?: number; // relative deadline of each job (default: the period)
+  job?: number; // index of this job of a periodic task, set when its jobs are released
 }
 
 // Scheduling algorithms
-export type Algorithm = 'FCFS' | 'SJF' | 'SJF-P' | 'Priority' | 'Priority-P' | 'RoundRobin';
+export type Algorithm =
+  | 'FCFS'
+  | 'SJF'
+  | 'SJF-P'
+  | 'SJF-Predicted'
+  | 'SRTF-Predicted'
+  | 'HRRN'
+  | 'Priority'
+  | 'Priority-P'
+  | 'RoundRobin'
+  | 'MLFQ'
+  | 'Lottery'
+  | 'Stride'
+  | 'CFS'
+  | 'EDF'
+  | 'RM';
+
+// Policy used inside a single MLFQ level
+export type MLFQLevelPolicy = 'RR' | 'FCFS';
+
+// One queue level of a Multilevel Feedback Queue (level 0 = highest priority)
+export interface MLFQLevel {
+  quantum: number; // time allotment at this level (ignored for FCFS levels)
+  policy: MLFQLevelPolicy;
+}
+
+// Multilevel Feedback Queue configuration
+export interface MLFQConfig {
+  levels: MLFQLevel[];
+  boostInterval: number; // 0 disables the periodic priority boost
+}
+
+// Aging for Priority scheduling: a waiting process's priority number drops
+// by `step` for every `interval` time units it spends in the ready queue
+export interface AgingConfig {
+  step: number;
+  interval: number; // 0 disables aging
+}
+
+// How ready processes are shared between cores
+export type QueueMode = 'global' | 'per-core';
+
+// Algorithm-specific simulation parameters
+export interface SimulationOptions {
+  mlfq?: MLFQConfig;
+  aging?: AgingConfig; // Priority and Priority-P only
+  contextSwitchCost?: number; // time to switch between two processes (default 0)
+  cores?: number; // number of CPUs (default 1)
+  queueMode?: QueueMode; // default 'global'
+  starvationThreshold?: number; // waiting time above which a process is flagged as starved (default: never)
+  params?: AlgorithmParams; // numeric algorithm parameters other than the quantum
+}
+
+// Values of an algorithm's numeric parameters, by parameter name
+export type AlgorithmParams = Record<string, number>;
+
+// One numeric parameter an algorithm takes, used to build its input
+export interface AlgorithmParam {
+  name: string; // key in AlgorithmParams ('quantum' is the Round Robin time slice)
+  label: string;
+  description: string;
+  default: number;
+  min: number;
+  max?: number;
+  step?: number; // input step (default 1)
+  integer?: boolean;
+}
+
+// Structured settings an algorithm reads from SimulationOptions, edited by their own panels
+export type AlgorithmOptionKey = 'mlfq' | 'aging';
+
+// Optional Process fields an algorithm reads, shown as extra process table columns
+export type ProcessFieldKey = 'tickets' | 'period' | 'deadline';
+
+// Key the ready queue is ordered by, shown on the live ready queue cards
+export type QueueKey =
+  | 'burst'
+  | 'remaining'
+  | 'priority'
+  | 'tickets'
+  | 'nice'
+  | 'ratio'
+  | 'deadline'
+  | 'period';
 
 // Gantt chart segment
 export interface GanttSegment {
-  pid: string | null; // null for IDLE
+  pid: string | null; // null for IDLE and context switches
   start: number;
   end: number;
+  kind?: 'switch'; // context switch overhead; omitted for process runs and IDLE
+  core?: number; // CPU index, set on multi-core runs only
+  detail?: string; // policy note for the dispatch that started this run (e.g. aged priority)
+}
+
+// Kinds of scheduling events in the trace
+export type TraceEventType =
+  | 'arrival'
+  | 'dispatch'
+  | 'preempt'
+  | 'quantum-expire'
+  | 'io-block'
+  | 'io-return'
+  | 'complete';
+
+// One scheduling decision or state change, for explaining a run
+export interface TraceEvent {
+  time: number;
+  type: TraceEventType;
+  pid: string;
+  job?: number; // job index when the event is about a job of a periodic task
+  core?: number; // CPU index on multi-core runs (arrivals: the home core, per-core queues only)
+  readyQueue: string[]; // PIDs waiting after the event, in the order the policy would pick them
+  readyJobs?: (number | null)[]; // job index of each readyQueue entry, on runs with periodic tasks
+  detail?: string;
+}
+
+// One process (or one job of a periodic task) waiting in a ready queue
+export interface QueuedJob {
+  pid: string;
+  job?: number;
 }
 
 // Per-process metrics
@@ -24,22 +144,82 @@ export interface ProcessMetrics {
   burstTime: number;
   priority: number;
   completionTime: number;
-  waitingTime: number;
+  waitingTime: number; // time spent in the ready queue
+  ioTime: number; // time spent blocked on I/O
   turnaroundTime: number;
   responseTime: number;
+  slowdown: number; // (waiting + CPU + I/O) / CPU (1 = never delayed)
+  starved: boolean; // waited longer than the starvation threshold
+  jobs?: JobOutcome[]; // each job of a periodic task, or the single job of a process with a deadline
+}
+
+// How one job of a real-time process turned out
+export interface JobOutcome {
+  release: number;
+  deadline: number; // absolute deadline (Infinity when the process has none)
+  completion: number;
+  missed: boolean; // completed after its deadline
 }
 
 // Overall simulation results
 export interface SimulationResult {
   ganttChart: GanttSegment[];
+  ioChart: GanttSegment[]; // I/O activity; segments may overlap
+  events: TraceEvent[]; // scheduling events in time order
   processMetrics: ProcessMetrics[];
   averageWaitingTime: number;
   averageTurnaroundTime: number;
   averageResponseTime: number;
-  cpuUtilization: number;
+  cpuUtilization: number; // useful work only, averaged over all cores
+  cpuUtilizationWithOverhead: number; // useful work plus context switches
+  coreUtilization: number[]; // useful work per core
+  contextSwitches: number;
+  switchOverhead: number; // total time spent switching
+  fairnessIndex: number; // Jain's index over slowdowns (1 = perfectly fair)
+  maxWaitingTime: number;
+  p95WaitingTime: number; // nearest-rank 95th percentile
   totalTime: number;
 }
 
+// A named process set with the algorithm to run it under
+export interface Scenario {
+  name: string;
+  description?: string;
+  processes: Process[];
+  algorithm: Algorithm;
+  quantum: number;
+}
+
+// Everything needed to restore the app after a reload
+export interface Workspace {
+  processes: Process[];
+  algorithm: Algorithm;
+  quantum: number;
+  options: SimulationOptions;
+}
+
+// Distribution of generated CPU burst lengths
+export type BurstDistribution =
+  | { kind: 'exponential'; mean: number }
+  | { kind: 'uniform'; min: number; max: number }
+  | { kind: 'bimodal'; shortMean: number; longMean: number; longFraction: number };
+
+// Settings for the random workload generator
+export interface WorkloadConfig {
+  count: number;
+  arrivalRate: number; // mean arrivals per time unit (Poisson process)
+  burst: BurstDistribution;
+  priorityMin: number;
+  priorityMax: number;
+  seed: number;
+}
+
+// One algorithm's run in a side-by-side comparison
+export interface AlgorithmComparison {
+  algorithm: Algorithm;
+  result: SimulationResult;
+}
+
 // Color mapping for processes
 export interface ProcessColor {
   bg: string;